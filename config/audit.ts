@@ -0,0 +1,277 @@
+/**
+ * Configuration Audit Log
+ * Append-only JSONL history of configuration changes, replayable to any revision
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import os from 'os'
+import crypto from 'crypto'
+import { applyJsonPatch, createJsonPatch, JsonPatch } from './patch'
+
+/**
+ * Default location of the audit log
+ */
+export const AUDIT_LOG_PATH = 'config/architect-resume.audit.jsonl'
+
+/**
+ * Environment variable naming the actor recorded with each change
+ */
+export const AUDIT_ACTOR_ENV = 'ARCH_RESUME_ACTOR'
+
+export interface AuditFileSnapshot {
+  path: string
+  // Content hash naming the stored copy; null when the file did not exist
+  checksum: string | null
+}
+
+export interface AuditEntry {
+  revision: number
+  timestamp: string
+  actor: string
+  // What made the change: set, updateConfig, applyPatch, reload, rollback:<revision>, ...
+  source: string
+  // Applied to the previous revision; a baseline replaces the whole document
+  patch: JsonPatch
+  // Checksum of the configuration after this revision
+  checksum: string
+  // Config files behind this revision, recorded whenever their content changed
+  files?: AuditFileSnapshot[]
+}
+
+export interface ConfigChangeRecord {
+  oldConfig: any
+  newConfig: any
+  actor?: string
+  source: string
+  // Config files the new configuration was loaded from
+  files?: string[]
+}
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath)
+}
+
+/**
+ * Serialize with sorted keys so equal configurations hash equally
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort()
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Checksum of a configuration that ignores key order
+ */
+export function computeAuditChecksum(config: any): string {
+  return crypto.createHash('sha256').update(canonicalize(config)).digest('hex')
+}
+
+/**
+ * Actor for changes that do not name one
+ */
+export function getDefaultActor(): string {
+  if (process.env[AUDIT_ACTOR_ENV]) return process.env[AUDIT_ACTOR_ENV]!
+  try {
+    return os.userInfo().username
+  } catch {
+    return 'unknown'
+  }
+}
+
+/**
+ * Directory holding the copies of config files referenced by an audit log
+ */
+export function getAuditSnapshotDir(logPath = AUDIT_LOG_PATH): string {
+  return `${logPath.replace(/\.jsonl$/, '')}.snapshots`
+}
+
+function isBaseline(entry: AuditEntry): boolean {
+  return entry.patch.length === 1 && entry.patch[0].op === 'replace' && entry.patch[0].path === ''
+}
+
+/**
+ * Read all entries of an audit log; a missing log has no entries
+ */
+export async function readAuditLog(logPath = AUDIT_LOG_PATH): Promise<AuditEntry[]> {
+  let content: string
+  try {
+    content = await fs.readFile(resolvePath(logPath), 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+  
+  return content.split('\n').flatMap((line, index) => {
+    if (!line.trim()) return []
+    try {
+      return [JSON.parse(line) as AuditEntry]
+    } catch {
+      throw new Error(`${logPath}:${index + 1}: Invalid audit log entry`)
+    }
+  })
+}
+
+async function appendEntries(logPath: string, entries: AuditEntry[]): Promise<void> {
+  const absolutePath = resolvePath(logPath)
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+  // One write per change keeps entries whole even if the process stops
+  await fs.appendFile(absolutePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf-8')
+}
+
+/**
+ * Read config files and hash their content
+ */
+async function readConfigFiles(files: string[]): Promise<Array<AuditFileSnapshot & { content?: Buffer }>> {
+  return Promise.all(Array.from(new Set(files)).sort().map(async file => {
+    try {
+      const content = await fs.readFile(resolvePath(file))
+      return { path: file, checksum: crypto.createHash('sha256').update(content).digest('hex'), content }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      return { path: file, checksum: null }
+    }
+  }))
+}
+
+function isSameSnapshot(a: AuditFileSnapshot[], b: AuditFileSnapshot[] = []): boolean {
+  return a.length === b.length && a.every((file, index) => file.path === b[index].path && file.checksum === b[index].checksum)
+}
+
+/**
+ * Append a change to the audit log
+ *
+ * When the log is empty, or its last revision is not the configuration the
+ * change started from (the files were edited in between), a baseline with
+ * the full configuration is written first so every revision can be rebuilt.
+ * When the config files differ from the last copies in the log, copies are
+ * stored next to it under their content hash.
+ */
+export async function recordConfigChange(
+  change: ConfigChangeRecord,
+  logPath = AUDIT_LOG_PATH
+): Promise<AuditEntry | undefined> {
+  const patch = createJsonPatch(change.oldConfig, change.newConfig)
+  if (patch.length === 0) return undefined
+  
+  const log = await readAuditLog(logPath)
+  const last = log[log.length - 1]
+  const actor = change.actor || getDefaultActor()
+  const timestamp = new Date().toISOString()
+  const entries: AuditEntry[] = []
+  let revision = last ? last.revision + 1 : 1
+  
+  let files: AuditFileSnapshot[] | undefined
+  if (change.files) {
+    const current = await readConfigFiles(change.files)
+    const snapshot = current.map(file => ({ path: file.path, checksum: file.checksum }))
+    const previous = [...log].reverse().find(entry => entry.files)?.files
+    
+    if (!isSameSnapshot(snapshot, previous)) {
+      const snapshotDir = resolvePath(getAuditSnapshotDir(logPath))
+      await fs.mkdir(snapshotDir, { recursive: true })
+      for (const file of current) {
+        if (file.content) await fs.writeFile(path.join(snapshotDir, file.checksum!), file.content)
+      }
+      files = snapshot
+    }
+  }
+  
+  if (!last || last.checksum !== computeAuditChecksum(change.oldConfig)) {
+    entries.push({
+      revision: revision++,
+      timestamp,
+      actor,
+      source: 'baseline',
+      patch: [{ op: 'replace', path: '', value: change.oldConfig }],
+      checksum: computeAuditChecksum(change.oldConfig),
+    })
+  }
+  
+  const entry: AuditEntry = {
+    revision,
+    timestamp,
+    actor,
+    source: change.source,
+    patch,
+    checksum: computeAuditChecksum(change.newConfig),
+  }
+  entries.push(entry)
+  
+  // A baseline stands for the files as they are now
+  if (files) entries[0].files = files
+  
+  await appendEntries(logPath, entries)
+  return entry
+}
+
+/**
+ * Rebuild the configuration at a revision by replaying the log from the last baseline
+ */
+export function replayAuditLog(entries: AuditEntry[], revision: number): any {
+  const targetIndex = entries.findIndex(entry => entry.revision === revision)
+  if (targetIndex === -1) {
+    throw new Error(`Revision ${revision} does not exist`)
+  }
+  
+  let start = targetIndex
+  while (start > 0 && !isBaseline(entries[start])) start--
+  
+  let config: any = {}
+  for (const entry of entries.slice(start, targetIndex + 1)) {
+    config = applyJsonPatch(config, entry.patch)
+    if (computeAuditChecksum(config) !== entry.checksum) {
+      throw new Error(`Audit log is inconsistent at revision ${entry.revision}`)
+    }
+  }
+  
+  return config
+}
+
+/**
+ * Get the configuration as it was at a revision
+ */
+export async function getConfigRevision(revision: number, logPath = AUDIT_LOG_PATH): Promise<any> {
+  return replayAuditLog(await readAuditLog(logPath), revision)
+}
+
+/**
+ * List revisions, newest last, without their patches
+ */
+export async function listConfigHistory(logPath = AUDIT_LOG_PATH): Promise<Array<Omit<AuditEntry, 'patch'> & { operations: number }>> {
+  return (await readAuditLog(logPath)).map(({ patch, ...entry }) => ({
+    ...entry,
+    operations: patch.length,
+  }))
+}
+
+/**
+ * Get the config files as they were at a revision: the last copies recorded at or before it
+ */
+export function getConfigFileSnapshot(entries: AuditEntry[], revision: number): { revision: number; files: AuditFileSnapshot[] } {
+  const targetIndex = entries.findIndex(entry => entry.revision === revision)
+  if (targetIndex === -1) {
+    throw new Error(`Revision ${revision} does not exist`)
+  }
+  
+  const snapshot = entries.slice(0, targetIndex + 1).reverse().find(entry => entry.files)
+  if (!snapshot) {
+    throw new Error(`No config files were recorded at or before revision ${revision}`)
+  }
+  
+  return { revision: snapshot.revision, files: snapshot.files! }
+}
+
+/**
+ * Read the stored copy of a config file
+ */
+export async function readConfigFileSnapshot(file: AuditFileSnapshot, logPath = AUDIT_LOG_PATH): Promise<Buffer | null> {
+  if (!file.checksum) return null
+  return fs.readFile(path.join(resolvePath(getAuditSnapshotDir(logPath)), file.checksum))
+}
\ No newline at end of file
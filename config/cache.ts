@@ -0,0 +1,316 @@
+/**
+ * Configuration Cache
+ * In-memory cache for loaded sources with an optional persistent backend on disk
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import type { ConfigSource } from './loader'
+import { envLog } from './environment'
+
+/**
+ * Default directory of the persistent cache, relative to the project root
+ */
+export const CONFIG_CACHE_DIR = '.cache/architect-resume'
+
+const CACHE_FORMAT_VERSION = 1
+const DEFAULT_CACHE_TTL = 300000 // 5 minutes
+
+export interface ConfigCacheOptions {
+  // Keep entries on disk so they survive restarts and separate builds
+  persistent?: boolean
+  directory?: string
+}
+
+export interface CachedConfig {
+  key: string
+  config: any
+  timestamp: number
+  ttl: number
+  source: ConfigSource
+  // Content hash of the files the source was loaded from
+  fingerprint?: string
+  // Hash of the cached data, checked when an entry is read from disk
+  checksum: string
+}
+
+const memoryCache = new Map<string, CachedConfig>()
+const counters = { hits: 0, misses: 0 }
+
+let cacheOptions: Required<ConfigCacheOptions> = {
+  persistent: process.env.ARCH_RESUME_CONFIG_CACHE === 'persistent',
+  directory: CONFIG_CACHE_DIR,
+}
+
+function hash(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath)
+}
+
+/**
+ * Configure the cache backend; cached entries in memory are kept
+ */
+export function configureConfigCache(options: ConfigCacheOptions): void {
+  cacheOptions = { ...cacheOptions, ...options }
+}
+
+/**
+ * Current cache backend settings
+ */
+export function getConfigCacheOptions(): Required<ConfigCacheOptions> {
+  return { ...cacheOptions }
+}
+
+/**
+ * Hash of a configuration object
+ */
+export function computeConfigChecksum(config: any): string {
+  return hash(JSON.stringify(config))
+}
+
+/**
+ * Content hash of a set of files; missing files hash as missing
+ */
+export async function fingerprintFiles(files: string[]): Promise<string | undefined> {
+  if (files.length === 0) return undefined
+  
+  const digest = crypto.createHash('sha256')
+  for (const file of [...files].sort()) {
+    digest.update(`${file}\0`)
+    try {
+      digest.update(await fs.readFile(resolvePath(file)))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      digest.update('\0missing')
+    }
+    digest.update('\0')
+  }
+  
+  return digest.digest('hex')
+}
+
+function isExpired(entry: CachedConfig): boolean {
+  return Date.now() - entry.timestamp >= entry.ttl
+}
+
+/**
+ * Entry files are named by a hash of the source key and a hash of its content,
+ * so a changed source never matches an old entry
+ */
+function getEntryPrefix(key: string): string {
+  return `${hash(key).slice(0, 16)}-`
+}
+
+function getEntryPath(key: string, fingerprint?: string): string {
+  const content = fingerprint ? fingerprint.slice(0, 16) : 'nofiles'
+  return path.join(resolvePath(cacheOptions.directory), `${getEntryPrefix(key)}${content}.json`)
+}
+
+async function listEntryFiles(): Promise<string[]> {
+  try {
+    return (await fs.readdir(resolvePath(cacheOptions.directory)))
+      .filter(name => name.endsWith('.json'))
+      .map(name => path.join(resolvePath(cacheOptions.directory), name))
+  } catch {
+    return []
+  }
+}
+
+async function removeFile(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true })
+}
+
+/**
+ * Read a persisted entry, discarding it if it is corrupt or belongs to another key
+ */
+async function readPersistentEntry(key: string, fingerprint?: string): Promise<CachedConfig | undefined> {
+  const entryPath = getEntryPath(key, fingerprint)
+  
+  let stored: any
+  try {
+    stored = JSON.parse(await fs.readFile(entryPath, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      envLog('warn', `Discarding unreadable config cache entry: ${entryPath}`)
+      await removeFile(entryPath)
+    }
+    return undefined
+  }
+  
+  const { version, ...entry } = stored
+  if (
+    version !== CACHE_FORMAT_VERSION ||
+    entry.key !== key ||
+    entry.fingerprint !== fingerprint ||
+    entry.checksum !== computeConfigChecksum(entry.config)
+  ) {
+    envLog('warn', `Discarding config cache entry that failed its integrity check: ${key}`)
+    await removeFile(entryPath)
+    return undefined
+  }
+  
+  return entry as CachedConfig
+}
+
+/**
+ * Write an entry atomically and remove entries for older content of the same source
+ */
+async function writePersistentEntry(entry: CachedConfig): Promise<void> {
+  const entryPath = getEntryPath(entry.key, entry.fingerprint)
+  const tempPath = `${entryPath}.${process.pid}.tmp`
+  
+  await fs.mkdir(path.dirname(entryPath), { recursive: true })
+  await fs.writeFile(tempPath, JSON.stringify({ version: CACHE_FORMAT_VERSION, ...entry }))
+  await fs.rename(tempPath, entryPath)
+  
+  const prefix = getEntryPrefix(entry.key)
+  for (const file of await listEntryFiles()) {
+    if (path.basename(file).startsWith(prefix) && file !== entryPath) {
+      await removeFile(file)
+    }
+  }
+}
+
+/**
+ * Get a cached source if it is within its TTL and its files have not changed
+ *
+ * With `persist` false the persistent backend is skipped for this source.
+ */
+export async function getCachedConfig(key: string, fingerprint?: string, persist = true): Promise<any | undefined> {
+  let entry = memoryCache.get(key)
+  
+  if (entry && entry.fingerprint !== fingerprint) {
+    envLog('info', `Config source changed, expiring cache: ${key}`)
+    memoryCache.delete(key)
+    entry = undefined
+  }
+  
+  if (!entry && cacheOptions.persistent && persist) {
+    entry = await readPersistentEntry(key, fingerprint)
+    if (entry) memoryCache.set(key, entry)
+  }
+  
+  if (entry && isExpired(entry)) {
+    await deleteCachedConfig(key)
+    entry = undefined
+  }
+  
+  if (!entry) {
+    counters.misses++
+    return undefined
+  }
+  
+  counters.hits++
+  return entry.config
+}
+
+/**
+ * Cache a loaded source; with `persist` false it is only kept in memory
+ */
+export async function setCachedConfig(
+  key: string,
+  config: any,
+  source: ConfigSource,
+  fingerprint?: string,
+  persist = true
+): Promise<void> {
+  const entry: CachedConfig = {
+    key,
+    config,
+    timestamp: Date.now(),
+    ttl: source.ttl || DEFAULT_CACHE_TTL,
+    source,
+    fingerprint,
+    checksum: computeConfigChecksum(config),
+  }
+  
+  memoryCache.set(key, entry)
+  
+  if (cacheOptions.persistent && persist) {
+    try {
+      await writePersistentEntry(entry)
+    } catch (error) {
+      // The in-memory entry still works; a read-only disk should not fail the load
+      envLog('warn', `Failed to persist config cache entry: ${key}`, error)
+    }
+  }
+}
+
+/**
+ * Remove the cached entries for one source
+ */
+export async function deleteCachedConfig(key: string): Promise<void> {
+  memoryCache.delete(key)
+  
+  if (cacheOptions.persistent) {
+    const prefix = getEntryPrefix(key)
+    for (const file of await listEntryFiles()) {
+      if (path.basename(file).startsWith(prefix)) await removeFile(file)
+    }
+  }
+}
+
+/**
+ * Remove every cached entry whose key matches, returning the removed keys
+ */
+export async function evictCachedConfigs(matches: (key: string) => boolean): Promise<string[]> {
+  const evicted = new Set<string>()
+  
+  for (const key of Array.from(memoryCache.keys())) {
+    if (matches(key)) {
+      memoryCache.delete(key)
+      evicted.add(key)
+    }
+  }
+  
+  if (cacheOptions.persistent) {
+    for (const file of await listEntryFiles()) {
+      let key: string | undefined
+      try {
+        key = JSON.parse(await fs.readFile(file, 'utf-8')).key
+      } catch {
+        // Unreadable entries would be discarded on read anyway
+      }
+      
+      if (key === undefined || matches(key)) {
+        await removeFile(file)
+        if (key !== undefined) evicted.add(key)
+      }
+    }
+  }
+  
+  return Array.from(evicted)
+}
+
+/**
+ * Cached entries held in memory
+ */
+export function getCachedConfigEntries(): CachedConfig[] {
+  return Array.from(memoryCache.values())
+}
+
+/**
+ * Cache hit and miss counts since start or the last reset
+ */
+export function getCacheCounters(): { hits: number; misses: number } {
+  return { ...counters }
+}
+
+/**
+ * Reset the hit and miss counters
+ */
+export function resetCacheCounters(): void {
+  counters.hits = 0
+  counters.misses = 0
+}
+
+/**
+ * Check whether a cached entry is still within its TTL
+ */
+export function isCachedConfigValid(entry: CachedConfig): boolean {
+  return !isExpired(entry)
+}
\ No newline at end of file
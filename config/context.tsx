@@ -19,8 +19,10 @@ import {
   ConfigurationManager, 
   getConfigManager, 
   ConfigChange,
-  ConfigManagerOptions 
+  ConfigManagerOptions,
+  ConfigTransaction,
 } from './manager'
+import type { ConfigPath, ConfigPathValue } from './paths'
 
 export interface ConfigContextValue {
   config: ArchitectResumeConfig | null
@@ -29,11 +31,16 @@ export interface ConfigContextValue {
   error: string | null
   warnings: string[]
   loadTime: Date | null
+  // Paths of values resolved from secret references
+  secrets: string[]
   
   // Configuration methods
-  get: <T = any>(path: string, defaultValue?: T) => T
-  set: (path: string, value: any) => Promise<void>
+  // Paths are checked against the schema, e.g. get('seo.twitterCard')
+  get: <P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>) => ConfigPathValue<P>
+  set: <P extends ConfigPath>(path: P, value: ConfigPathValue<P>) => Promise<void>
   update: (updates: Partial<ArchitectResumeConfig>) => Promise<void>
+  // Apply several changes with one validation and one re-render
+  transaction: <T = void>(fn: (tx: ConfigTransaction) => Promise<T> | T) => Promise<T>
   reload: () => Promise<void>
   
   // Feature flags and utilities
@@ -72,6 +79,7 @@ export function ConfigProvider({
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [warnings, setWarnings] = useState<string[]>([])
+  const [secrets, setSecrets] = useState<string[]>([])
   const [loadTime, setLoadTime] = useState<Date | null>(null)
   const [changeListeners] = useState<Set<(config: ArchitectResumeConfig) => void>>(new Set())
   
@@ -111,6 +119,7 @@ export function ConfigProvider({
         if (isMounted) {
           setConfig(loadedConfig.config)
           setWarnings(loadedConfig.warnings)
+          setSecrets(loadedConfig.secrets)
           setLoadTime(loadedConfig.loadTime)
           setIsLoading(false)
           
@@ -165,12 +174,12 @@ export function ConfigProvider({
   }, [configManager, onConfigChange, changeListeners])
   
   // Configuration methods
-  const get = useCallback(<T = any>(path: string, defaultValue?: T): T => {
-    if (!configManager.isLoaded) return defaultValue as T
+  const get = useCallback(<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P> => {
+    if (!configManager.isLoaded) return defaultValue as ConfigPathValue<P>
     return configManager.get(path, defaultValue)
   }, [configManager])
   
-  const set = useCallback(async (path: string, value: any): Promise<void> => {
+  const set = useCallback(async <P extends ConfigPath>(path: P, value: ConfigPathValue<P>): Promise<void> => {
     try {
       await configManager.set(path, value, { validate: false })
     } catch (err) {
@@ -192,6 +201,19 @@ export function ConfigProvider({
     }
   }, [configManager, onError])
   
+  const transaction = useCallback(async <T = void,>(
+    fn: (tx: ConfigTransaction) => Promise<T> | T
+  ): Promise<T> => {
+    try {
+      return await configManager.transaction(fn, { validate: false })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to apply configuration transaction'
+      setError(errorMessage)
+      onError?.(errorMessage)
+      throw err
+    }
+  }, [configManager, onError])
+  
   const reload = useCallback(async (): Promise<void> => {
     try {
       setIsLoading(true)
@@ -199,6 +221,7 @@ export function ConfigProvider({
       const loadedConfig = await configManager.reload()
       setConfig(loadedConfig.config)
       setWarnings(loadedConfig.warnings)
+      setSecrets(loadedConfig.secrets)
       setLoadTime(loadedConfig.loadTime)
       setIsLoading(false)
     } catch (err) {
@@ -245,11 +268,13 @@ export function ConfigProvider({
     error,
     warnings,
     loadTime,
+    secrets,
     
     // Methods
     get,
     set,
     update,
+    transaction,
     reload,
     
     // Helpers
@@ -266,9 +291,11 @@ export function ConfigProvider({
     error,
     warnings,
     loadTime,
+    secrets,
     get,
     set,
     update,
+    transaction,
     reload,
     isFeatureEnabled,
     getTheme,
@@ -300,15 +327,15 @@ export function useConfig(): ConfigContextValue {
 /**
  * Hook to use a specific configuration value
  */
-export function useConfigValue<T = any>(
-  path: string,
-  defaultValue?: T
-): [T, (value: T) => Promise<void>] {
+export function useConfigValue<P extends ConfigPath>(
+  path: P,
+  defaultValue?: ConfigPathValue<P>
+): [ConfigPathValue<P>, (value: ConfigPathValue<P>) => Promise<void>] {
   const { get, set } = useConfig()
   
-  const value = useMemo(() => get<T>(path, defaultValue), [get, path, defaultValue])
+  const value = useMemo(() => get(path, defaultValue), [get, path, defaultValue])
   
-  const setValue = useCallback(async (newValue: T) => {
+  const setValue = useCallback(async (newValue: ConfigPathValue<P>) => {
     await set(path, newValue)
   }, [set, path])
   
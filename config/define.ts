@@ -0,0 +1,47 @@
+/**
+ * Typed Configuration Helpers
+ * Helpers for authoring architect-resume.config.ts files
+ */
+
+import type { ArchitectResumeConfig } from './schema'
+import type { RuntimeEnvironment } from './environment'
+
+/**
+ * Recursively optional configuration; array items stay complete because
+ * arrays replace rather than merge across sources
+ */
+export type DeepPartial<T> = T extends Array<infer U>
+  ? U[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T
+
+export type UserConfig = DeepPartial<ArchitectResumeConfig>
+
+export type UserConfigFactory = (
+  runtime: RuntimeEnvironment
+) => UserConfig | Promise<UserConfig>
+
+export type UserConfigExport = UserConfig | UserConfigFactory
+
+/**
+ * Define configuration with full type checking and editor completion
+ *
+ * Accepts either a configuration object or a (possibly async) factory that
+ * receives the runtime environment when the config file is loaded.
+ */
+export function defineConfig(config: UserConfig): UserConfig
+export function defineConfig(factory: UserConfigFactory): UserConfigFactory
+export function defineConfig(config: UserConfigExport): UserConfigExport {
+  return config
+}
+
+/**
+ * Resolve a config module export, invoking factory exports
+ */
+export async function resolveUserConfig(
+  exported: UserConfigExport,
+  runtime: RuntimeEnvironment
+): Promise<UserConfig> {
+  return typeof exported === 'function' ? await exported(runtime) : exported
+}
\ No newline at end of file
@@ -0,0 +1,265 @@
+/**
+ * Configuration Diagnostics
+ * Maps validation issues back to lines and columns in the original file
+ */
+
+import { z } from 'zod'
+import { parseDocument, LineCounter, isMap, isSeq, isPair, isScalar, Node } from 'yaml'
+import { ArchitectResumeConfigSchema } from './schema'
+import { getConfigFileFormat } from './formats'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface ConfigDiagnostic {
+  severity: DiagnosticSeverity
+  // Dot path of the offending value, e.g. experience.items.1.endDate
+  path: string
+  message: string
+  // zod issue code, semantic rule name or 'unknown-key'
+  code: string
+  file?: string
+  line?: number
+  column?: number
+  frame?: string
+  suggestion?: string
+}
+
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+/**
+ * Keys that may appear in a config file without being part of the schema
+ */
+const IGNORED_KEYS = new Set(['$schema', '$encryption'])
+
+/**
+ * Split a dot path into segments, turning array indexes into numbers
+ */
+export function splitPath(path: string): Array<string | number> {
+  if (!path) return []
+  return path.split('.').map(segment => /^\d+$/.test(segment) ? parseInt(segment) : segment)
+}
+
+/**
+ * Source locator for JSON and YAML content
+ *
+ * JSON is valid YAML, so both are parsed with the YAML CST to get node ranges.
+ */
+export function createSourceLocator(content: string) {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter })
+  const usable = document.errors.length === 0
+  
+  function toPosition(offset: number): SourcePosition {
+    const { line, col } = lineCounter.linePos(offset)
+    return { line, column: col }
+  }
+  
+  return {
+    /**
+     * Locate a path, falling back to the deepest ancestor that exists.
+     * With `key` set, object members resolve to their key rather than their value.
+     */
+    locate(path: Array<string | number>, options: { key?: boolean } = {}): SourcePosition | undefined {
+      if (!usable) return undefined
+      
+      let node: unknown = document.contents
+      let position = node && (node as Node).range ? toPosition((node as Node).range![0]) : undefined
+      
+      for (const [index, segment] of path.entries()) {
+        if (isMap(node)) {
+          const pair = node.items.find(item => isPair(item) && isScalar(item.key) && item.key.value === segment)
+          if (!pair) break
+          
+          const keyNode = pair.key as Node
+          const valueNode = pair.value as Node | null
+          const isLast = index === path.length - 1
+          const target = options.key && isLast ? keyNode : valueNode || keyNode
+          if (target?.range) position = toPosition(target.range[0])
+          node = valueNode
+        } else if (isSeq(node) && typeof segment === 'number') {
+          const item = node.items[segment] as Node | undefined
+          if (!item) break
+          if (item.range) position = toPosition(item.range[0])
+          node = item
+        } else {
+          break
+        }
+      }
+      
+      return position
+    },
+  }
+}
+
+/**
+ * Render the lines around a position with a caret under the column
+ */
+export function createCodeFrame(
+  content: string,
+  position: SourcePosition,
+  contextLines = 2
+): string {
+  const lines = content.split(/\r?\n/)
+  const start = Math.max(1, position.line - contextLines)
+  const end = Math.min(lines.length, position.line + contextLines)
+  const gutterWidth = String(end).length
+  const frame: string[] = []
+  
+  for (let line = start; line <= end; line++) {
+    const marker = line === position.line ? '>' : ' '
+    const gutter = String(line).padStart(gutterWidth)
+    frame.push(`${marker} ${gutter} | ${lines[line - 1]}`.trimEnd())
+    
+    if (line === position.line) {
+      const indent = lines[line - 1].slice(0, position.column - 1).replace(/[^\t]/g, ' ')
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${indent}^`)
+    }
+  }
+  
+  return frame.join('\n')
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = current
+    }
+  }
+  
+  return previous[b.length]
+}
+
+/**
+ * Suggest the closest known key for a misspelled one
+ */
+export function suggestKey(key: string, candidates: string[]): string | undefined {
+  const lower = key.toLowerCase()
+  const caseInsensitive = candidates.find(candidate => candidate.toLowerCase() === lower)
+  if (caseInsensitive) return caseInsensitive
+  
+  const threshold = Math.max(1, Math.floor(key.length / 3))
+  let best: { candidate: string; distance: number } | undefined
+  
+  for (const candidate of candidates) {
+    const distance = levenshtein(lower, candidate.toLowerCase())
+    if (distance <= threshold && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+  
+  return best?.candidate
+}
+
+/**
+ * Strip wrappers that do not change the shape of a value
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType)
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap())
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema._def.schema)
+  return schema
+}
+
+/**
+ * Find keys that the schema does not know about; zod would silently strip them
+ */
+export function findUnknownKeys(
+  value: any,
+  schema: z.ZodTypeAny = ArchitectResumeConfigSchema,
+  path: Array<string | number> = []
+): Array<{ path: Array<string | number>; key: string; suggestion?: string }> {
+  const unwrapped = unwrapSchema(schema)
+  const unknown: Array<{ path: Array<string | number>; key: string; suggestion?: string }> = []
+  
+  if (unwrapped instanceof z.ZodObject && value && typeof value === 'object' && !Array.isArray(value)) {
+    const shape = unwrapped.shape as Record<string, z.ZodTypeAny>
+    const strips = unwrapped._def.catchall instanceof z.ZodNever && unwrapped._def.unknownKeys === 'strip'
+    
+    for (const [key, child] of Object.entries(value)) {
+      if (shape[key]) {
+        unknown.push(...findUnknownKeys(child, shape[key], [...path, key]))
+      } else if (strips && !(path.length === 0 && IGNORED_KEYS.has(key))) {
+        unknown.push({ path: [...path, key], key, suggestion: suggestKey(key, Object.keys(shape)) })
+      }
+    }
+  } else if (unwrapped instanceof z.ZodArray && Array.isArray(value)) {
+    value.forEach((item, index) => {
+      unknown.push(...findUnknownKeys(item, unwrapped.element, [...path, index]))
+    })
+  } else if (unwrapped instanceof z.ZodRecord && value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      unknown.push(...findUnknownKeys(child, unwrapped._def.valueType, [...path, key]))
+    }
+  }
+  
+  return unknown
+}
+
+/**
+ * Build diagnostics for unknown keys in a parsed config document
+ */
+export function diagnoseUnknownKeys(value: any): ConfigDiagnostic[] {
+  return findUnknownKeys(value).map(({ path, key, suggestion }) => ({
+    severity: 'warning',
+    path: path.join('.'),
+    code: 'unknown-key',
+    message: suggestion
+      ? `Unknown key "${key}" is ignored. Did you mean "${suggestion}"?`
+      : `Unknown key "${key}" is ignored`,
+    suggestion,
+  }))
+}
+
+/**
+ * Attach file positions and code frames to diagnostics
+ *
+ * Positions are only available for JSON and YAML files; other formats keep
+ * their diagnostics without a location.
+ */
+export function locateDiagnostics(
+  diagnostics: ConfigDiagnostic[],
+  content: string,
+  filePath: string
+): ConfigDiagnostic[] {
+  const format = getConfigFileFormat(filePath)
+  const locator = format === 'json' || format === 'yaml' ? createSourceLocator(content) : undefined
+  
+  return diagnostics.map(diagnostic => {
+    const position = locator?.locate(splitPath(diagnostic.path), { key: diagnostic.code === 'unknown-key' })
+    if (!position) {
+      return { ...diagnostic, file: filePath }
+    }
+    
+    return {
+      ...diagnostic,
+      file: filePath,
+      line: position.line,
+      column: position.column,
+      frame: createCodeFrame(content, position),
+    }
+  })
+}
+
+/**
+ * Format a diagnostic as a single line, prefixed with its location when known
+ */
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const location = diagnostic.line !== undefined
+    ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: `
+    : ''
+  const path = diagnostic.path ? `${diagnostic.path}: ` : ''
+  return `${location}${path}${diagnostic.message}`
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+/**
+ * Directory Configuration Source
+ * Assembles configuration from a tree of content files, one file per array item
+ */
+
+import { promises as fs, watch as watchFs } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { ArchitectResumeConfigSchema } from './schema'
+import { getConfigFileFormat } from './formats'
+import { envLog } from './environment'
+
+/**
+ * Strip wrappers that do not change the shape of a value
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType)
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap())
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema._def.schema)
+  return schema
+}
+
+/**
+ * Resolve how a directory maps onto the schema
+ *
+ * A directory for an array (portfolio/projects) holds its items; a directory
+ * for a section with an `items` array (experience) holds that section's items.
+ */
+function getArrayTarget(schema?: z.ZodTypeAny): 'array' | 'items' | undefined {
+  if (!schema) return undefined
+  
+  const unwrapped = unwrapSchema(schema)
+  if (unwrapped instanceof z.ZodArray) return 'array'
+  if (unwrapped instanceof z.ZodObject) {
+    const items = (unwrapped.shape as Record<string, z.ZodTypeAny>).items
+    if (items && unwrapSchema(items) instanceof z.ZodArray) return 'items'
+  }
+  return undefined
+}
+
+function getChildSchema(schema: z.ZodTypeAny | undefined, key: string): z.ZodTypeAny | undefined {
+  const unwrapped = schema && unwrapSchema(schema)
+  return unwrapped instanceof z.ZodObject
+    ? (unwrapped.shape as Record<string, z.ZodTypeAny>)[key]
+    : undefined
+}
+
+async function readContentFile(filePath: string): Promise<any> {
+  const content = await fs.readFile(filePath, 'utf-8')
+  const { parseConfigFile } = await import('./parsers')
+  const { $schema, ...parsed } = parseConfigFile(content, filePath) ?? {}
+  return parsed
+}
+
+/**
+ * Order items by their `order` field, then by file name
+ */
+function sortItems(items: Array<{ name: string; data: any }>): any[] {
+  const orderOf = (data: any) => typeof data.order === 'number' ? data.order : Infinity
+  
+  return [...items]
+    .sort((a, b) => orderOf(a.data) - orderOf(b.data) || a.name.localeCompare(b.name))
+    .map(({ data }) => {
+      const { order, ...item } = data
+      return item
+    })
+}
+
+async function readDirectory(dirPath: string, schema?: z.ZodTypeAny): Promise<any> {
+  const entries = (await fs.readdir(dirPath, { withFileTypes: true }))
+    .filter(entry => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  
+  const arrayTarget = getArrayTarget(schema)
+  
+  if (arrayTarget) {
+    const items: Array<{ name: string; data: any }> = []
+    
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name)
+      if (entry.isFile() && getConfigFileFormat(entry.name)) {
+        items.push({ name: entry.name, data: await readContentFile(entryPath) })
+      } else if (entry.isDirectory()) {
+        envLog('warn', `Ignoring nested directory in item directory: ${entryPath}`)
+      }
+    }
+    
+    const sorted = sortItems(items)
+    return arrayTarget === 'array' ? sorted : { items: sorted }
+  }
+  
+  const result: Record<string, any> = {}
+  
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name)
+    
+    if (entry.isDirectory()) {
+      result[entry.name] = await readDirectory(entryPath, getChildSchema(schema, entry.name))
+    } else if (entry.isFile() && getConfigFileFormat(entry.name)) {
+      // A file outside an item directory supplies the object at its name, e.g. personal.yaml
+      const key = path.basename(entry.name, path.extname(entry.name))
+      result[key] = await readContentFile(entryPath)
+    }
+  }
+  
+  return result
+}
+
+/**
+ * Load configuration from a content directory
+ */
+export async function loadConfigDirectory(dirPath: string): Promise<any> {
+  const absolutePath = path.isAbsolute(dirPath)
+    ? dirPath
+    : path.join(process.cwd(), dirPath)
+  
+  return readDirectory(absolutePath, ArchitectResumeConfigSchema)
+}
+
+/**
+ * List the content files under a directory, for cache invalidation
+ */
+export async function listConfigDirectoryFiles(dirPath: string): Promise<string[]> {
+  let entries
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true })
+  } catch {
+    return []
+  }
+  
+  const files = await Promise.all(entries
+    .filter(entry => !entry.name.startsWith('.'))
+    .map(entry => {
+      const entryPath = path.join(dirPath, entry.name)
+      if (entry.isDirectory()) return listConfigDirectoryFiles(entryPath)
+      return Promise.resolve(getConfigFileFormat(entry.name) ? [entryPath] : [])
+    }))
+  
+  return files.flat()
+}
+
+/**
+ * Watch a content directory, including files that are added or removed
+ */
+export function watchConfigDirectory(dirPath: string, onChange: () => void): () => void {
+  const absolutePath = path.isAbsolute(dirPath)
+    ? dirPath
+    : path.join(process.cwd(), dirPath)
+  
+  const watcher = watchFs(absolutePath, { recursive: true }, (eventType, filename) => {
+    envLog('info', `Config directory changed: ${path.join(dirPath, filename?.toString() ?? '')}`)
+    onChange()
+  })
+  
+  return () => watcher.close()
+}
\ No newline at end of file
@@ -0,0 +1,257 @@
+/**
+ * Encrypted Configuration Overlays
+ * AES-256-GCM encryption of config values under a locally held key
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:'
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+
+/**
+ * Default location of the encrypted overlay committed next to the config
+ */
+export const ENCRYPTED_CONFIG_PATH = 'config/architect-resume.secrets.enc.json'
+
+/**
+ * Default location of the local key file; never commit it
+ */
+export const ENCRYPTION_KEY_PATH = 'config/architect-resume.key'
+
+/**
+ * Environment variable holding a base64 key, used before the key file
+ */
+export const ENCRYPTION_KEY_ENV = 'ARCH_RESUME_SECRETS_KEY'
+
+export interface EncryptionMetadata {
+  version: 1
+  algorithm: typeof ENCRYPTION_ALGORITHM
+  keyId: string
+}
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath)
+}
+
+/**
+ * Generate a new random 256-bit key, base64 encoded
+ */
+export function generateEncryptionKey(): string {
+  return crypto.randomBytes(32).toString('base64')
+}
+
+function decodeKey(encoded: string, origin: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64')
+  if (key.length !== 32) {
+    throw new Error(`Encryption key from ${origin} must be 32 bytes, base64 encoded`)
+  }
+  return key
+}
+
+/**
+ * Thrown when neither ARCH_RESUME_SECRETS_KEY nor the key file exists
+ */
+export class MissingEncryptionKeyError extends Error {
+  constructor(public readonly keyPath: string) {
+    super(`No encryption key: set ${ENCRYPTION_KEY_ENV} or create ${keyPath}`)
+    this.name = 'MissingEncryptionKeyError'
+  }
+}
+
+/**
+ * Load the encryption key from ARCH_RESUME_SECRETS_KEY or the key file
+ */
+export async function loadEncryptionKey(keyPath = ENCRYPTION_KEY_PATH): Promise<Buffer> {
+  const fromEnv = process.env[ENCRYPTION_KEY_ENV]
+  if (fromEnv) {
+    return decodeKey(fromEnv, ENCRYPTION_KEY_ENV)
+  }
+  
+  try {
+    return decodeKey(await fs.readFile(resolvePath(keyPath), 'utf-8'), keyPath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new MissingEncryptionKeyError(keyPath)
+    }
+    throw error
+  }
+}
+
+/**
+ * Write a key file readable only by its owner
+ */
+export async function writeEncryptionKey(key: string, keyPath = ENCRYPTION_KEY_PATH): Promise<void> {
+  await fs.writeFile(resolvePath(keyPath), `${key}\n`, { mode: 0o600 })
+}
+
+/**
+ * Short fingerprint identifying which key encrypted a file
+ */
+export function getKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)
+}
+
+/**
+ * Check whether a value is an encrypted string
+ */
+export function isEncryptedValue(value: any): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX)
+}
+
+/**
+ * Encrypt a string; the config path is authenticated so values cannot be moved between fields
+ */
+export function encryptValue(value: string, key: Buffer, configPath: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(configPath))
+  
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  
+  return `${ENCRYPTED_VALUE_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`
+}
+
+/**
+ * Decrypt a string produced by encryptValue
+ */
+export function decryptValue(value: string, key: Buffer, configPath: string): string {
+  const [iv, tag, ciphertext] = value.slice(ENCRYPTED_VALUE_PREFIX.length).split(':')
+  if (!iv || !tag || ciphertext === undefined) {
+    throw new Error(`Malformed encrypted value at ${configPath}`)
+  }
+  
+  try {
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, Buffer.from(iv, 'base64'))
+    decipher.setAAD(Buffer.from(configPath))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8')
+  } catch {
+    throw new Error(`Cannot decrypt value at ${configPath}: wrong key or modified value`)
+  }
+}
+
+/**
+ * Apply a function to every string leaf, passing its dot path
+ */
+function mapStrings(value: any, fn: (value: string, configPath: string) => any, configPath: string[] = []): any {
+  if (typeof value === 'string') {
+    return fn(value, configPath.join('.'))
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map((item, index) => mapStrings(item, fn, [...configPath, String(index)]))
+  }
+  
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, mapStrings(child, fn, [...configPath, key])])
+    )
+  }
+  
+  return value
+}
+
+/**
+ * Encrypt every string value in a configuration; already encrypted values are kept
+ */
+export function encryptConfig(config: Record<string, any>, key: Buffer): Record<string, any> {
+  const { $schema, $encryption, ...values } = config
+  
+  const metadata: EncryptionMetadata = {
+    version: 1,
+    algorithm: ENCRYPTION_ALGORITHM,
+    keyId: getKeyId(key),
+  }
+  
+  return {
+    $encryption: metadata,
+    ...mapStrings(values, (value, configPath) =>
+      isEncryptedValue(value) ? value : encryptValue(value, key, configPath)
+    ),
+  }
+}
+
+/**
+ * Check that a document was encrypted with the given key
+ */
+function assertKeyMatches(document: Record<string, any>, key: Buffer, origin: string): void {
+  const keyId = document.$encryption?.keyId
+  if (keyId && keyId !== getKeyId(key)) {
+    throw new Error(`${origin} was encrypted with key ${keyId}, but the available key is ${getKeyId(key)}`)
+  }
+}
+
+/**
+ * Decrypt every encrypted value in a configuration
+ */
+export function decryptConfig(
+  document: Record<string, any>,
+  key: Buffer,
+  origin = 'Encrypted config'
+): Record<string, any> {
+  assertKeyMatches(document, key, origin)
+  
+  const { $schema, $encryption, ...values } = document
+  return mapStrings(values, (value, configPath) =>
+    isEncryptedValue(value) ? decryptValue(value, key, configPath) : value
+  )
+}
+
+/**
+ * Read and parse an encrypted overlay file
+ */
+export async function readEncryptedConfigFile(filePath: string): Promise<Record<string, any>> {
+  const content = await fs.readFile(resolvePath(filePath), 'utf-8')
+  const { parseConfigFile } = await import('./parsers')
+  return parseConfigFile(content, filePath) ?? {}
+}
+
+/**
+ * Load an encrypted overlay for the loader
+ *
+ * Encrypted values become `encrypted:` secret references, so they are only
+ * decrypted on the server and are tracked, redacted and masked like any other
+ * secret. A missing overlay is not an error.
+ */
+export async function loadEncryptedConfig(filePath: string): Promise<Record<string, any> | undefined> {
+  let document: Record<string, any>
+  try {
+    document = await readEncryptedConfigFile(filePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+    throw error
+  }
+  
+  assertKeyMatches(document, await loadEncryptionKey(), filePath)
+  
+  const { $schema, $encryption, ...values } = document
+  return mapStrings(values, value =>
+    isEncryptedValue(value) ? { $secret: `encrypted:${value}` } : value
+  )
+}
+
+/**
+ * Mask encrypted values, and references to them, for display
+ */
+export function maskEncryptedValues(value: any): any {
+  if (isEncryptedValue(value)) return '[encrypted]'
+  if (isObject(value) && typeof value.$secret === 'string' && value.$secret.startsWith('encrypted:')) {
+    return '[encrypted]'
+  }
+  if (Array.isArray(value)) return value.map(maskEncryptedValues)
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, maskEncryptedValues(child)]))
+  }
+  return value
+}
\ No newline at end of file
@@ -3,7 +3,13 @@
  * Handles environment variables with fallbacks and type safety
  */
 
-import { EnvironmentConfig, validateEnvironment } from './schema'
+import { z } from 'zod'
+import {
+  ArchitectResumeConfig,
+  ArchitectResumeConfigSchema,
+  EnvironmentConfig,
+  validateEnvironment,
+} from './schema'
 
 // Environment variable prefixes for different contexts
 const CLIENT_PREFIX = 'NEXT_PUBLIC_'
@@ -163,6 +169,195 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
   return validation.data!
 }
 
+/**
+ * Prefix for structured overrides: ARCH_RESUME__seo__siteUrl=https://example.com
+ */
+export const ENV_OVERRIDE_PREFIX = 'ARCH_RESUME__'
+export const ENV_OVERRIDE_SEPARATOR = '__'
+
+/**
+ * Existing environment variables and the configuration paths they override
+ */
+export const ENV_VAR_MAPPINGS: Record<string, string> = {
+  NEXT_PUBLIC_SITE_URL: 'seo.siteUrl',
+  NEXT_PUBLIC_GA_ID: 'analytics.googleAnalytics',
+  NEXT_PUBLIC_GTM_ID: 'analytics.googleTagManager',
+  NEXT_PUBLIC_HOTJAR_ID: 'analytics.hotjar',
+  NEXT_PUBLIC_GOOGLE_MAPS_API_KEY: 'contact.mapApiKey',
+  CONTACT_FORM_ENDPOINT: 'contact.formEndpoint',
+  CHATBOT_API_ENDPOINT: 'chatbot.apiEndpoint',
+  BASE_PATH: 'deployment.basePath',
+  CUSTOM_DOMAIN: 'deployment.customDomain',
+  FEATURE_ANALYTICS: 'features.analytics',
+  FEATURE_CHATBOT: 'features.chatbot',
+  FEATURE_DARK_MODE: 'features.darkMode',
+  FEATURE_CONTACT_FORM: 'contact.showForm',
+}
+
+export interface EnvOverride {
+  variable: string
+  path: string
+  value: any
+}
+
+/**
+ * Strip wrappers that do not change the type of a value
+ */
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType)
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap())
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema._def.schema)
+  return schema
+}
+
+/**
+ * Resolve override path segments against the schema, matching keys case-insensitively
+ */
+function resolveSchemaPath(segments: string[]): { path: string[]; schema: z.ZodTypeAny } | undefined {
+  let schema: z.ZodTypeAny = ArchitectResumeConfigSchema
+  const resolved: string[] = []
+  
+  for (const segment of segments) {
+    const unwrapped = unwrapSchema(schema)
+    
+    if (unwrapped instanceof z.ZodObject) {
+      const shape = unwrapped.shape as Record<string, z.ZodTypeAny>
+      const key = segment in shape
+        ? segment
+        : Object.keys(shape).find(candidate => candidate.toLowerCase() === segment.toLowerCase())
+      if (!key) return undefined
+      resolved.push(key)
+      schema = shape[key]
+    } else if (unwrapped instanceof z.ZodRecord) {
+      resolved.push(segment)
+      schema = unwrapped._def.valueType
+    } else {
+      return undefined
+    }
+  }
+  
+  return resolved.length > 0 ? { path: resolved, schema } : undefined
+}
+
+/**
+ * Coerce an environment variable string to the type the schema expects
+ */
+export function coerceEnvValue(raw: string, schema: z.ZodTypeAny): any {
+  const target = unwrapSchema(schema)
+  
+  if (target instanceof z.ZodNumber) {
+    const num = Number(raw)
+    if (raw.trim() === '' || isNaN(num)) throw new Error(`expected a number, got "${raw}"`)
+    return num
+  }
+  
+  if (target instanceof z.ZodBoolean) {
+    const value = raw.toLowerCase()
+    if (['true', '1', 'yes', 'on'].includes(value)) return true
+    if (['false', '0', 'no', 'off'].includes(value)) return false
+    throw new Error(`expected a boolean, got "${raw}"`)
+  }
+  
+  if (target instanceof z.ZodArray) {
+    if (raw.trim().startsWith('[')) {
+      const parsed = JSON.parse(raw)
+      if (!Array.isArray(parsed)) throw new Error('expected a JSON array')
+      return parsed
+    }
+    // Plain string lists may be comma-separated
+    if (unwrapSchema(target.element) instanceof z.ZodString) {
+      return raw.split(',').map(item => item.trim()).filter(Boolean)
+    }
+    throw new Error('expected a JSON array')
+  }
+  
+  if (target instanceof z.ZodObject || target instanceof z.ZodRecord) {
+    const parsed = JSON.parse(raw)
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object')
+    }
+    return parsed
+  }
+  
+  return raw
+}
+
+/**
+ * Collect configuration overrides from mapped and ARCH_RESUME__ variables
+ */
+export function resolveEnvOverrides(env: Record<string, string | undefined> = process.env): {
+  overrides: EnvOverride[]
+  warnings: string[]
+} {
+  const overrides: EnvOverride[] = []
+  const warnings: string[] = []
+  
+  // Mapped variables first so structured overrides win
+  const candidates: Array<{ variable: string; segments: string[] }> = [
+    ...Object.entries(ENV_VAR_MAPPINGS).map(([variable, configPath]) => ({
+      variable,
+      segments: configPath.split('.'),
+    })),
+    ...Object.keys(env)
+      .filter(variable => variable.startsWith(ENV_OVERRIDE_PREFIX))
+      .sort()
+      .map(variable => ({
+        variable,
+        segments: variable.slice(ENV_OVERRIDE_PREFIX.length).split(ENV_OVERRIDE_SEPARATOR),
+      })),
+  ]
+  
+  for (const { variable, segments } of candidates) {
+    const raw = env[variable]
+    if (raw === undefined || raw === '') continue
+    
+    const target = resolveSchemaPath(segments)
+    if (!target) {
+      warnings.push(`${variable}: ${segments.join('.')} is not a configuration path`)
+      continue
+    }
+    
+    try {
+      overrides.push({ variable, path: target.path.join('.'), value: coerceEnvValue(raw, target.schema) })
+    } catch (error) {
+      warnings.push(`${variable}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  
+  return { overrides, warnings }
+}
+
+/**
+ * Build a partial configuration from environment variable overrides, with
+ * warnings for variables that were skipped
+ */
+export function loadEnvironmentOverrides(
+  env: Record<string, string | undefined> = process.env
+): { config: Partial<ArchitectResumeConfig>; warnings: string[] } {
+  const { overrides, warnings } = resolveEnvOverrides(env)
+  const config: Record<string, any> = {}
+  
+  for (const { path, value } of overrides) {
+    const keys = path.split('.')
+    const lastKey = keys.pop()!
+    let target = config
+    
+    for (const key of keys) {
+      if (!target[key] || typeof target[key] !== 'object') {
+        target[key] = {}
+      }
+      target = target[key]
+    }
+    
+    target[lastKey] = value
+  }
+  
+  return {
+    config,
+    warnings: warnings.map(warning => `Ignoring environment override ${warning}`),
+  }
+}
+
 /**
  * Get environment-specific configuration
  */
@@ -250,6 +445,8 @@ export function getRuntimeEnvironment() {
   }
 }
 
+export type RuntimeEnvironment = ReturnType<typeof getRuntimeEnvironment>
+
 /**
  * Environment-aware logging
  */
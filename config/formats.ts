@@ -0,0 +1,40 @@
+/**
+ * Configuration File Formats
+ * Supported config file formats and their parse errors; the parsers live in parsers.ts
+ */
+
+import path from 'path'
+
+export type ConfigFileFormat = 'json' | 'yaml' | 'toml'
+
+/**
+ * File extensions handled by the text parsers
+ */
+export const CONFIG_FILE_FORMATS: Record<string, ConfigFileFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+}
+
+/**
+ * Error raised when a configuration file cannot be parsed
+ */
+export class ConfigParseError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    public readonly column: number,
+    public readonly reason: string
+  ) {
+    super(`${file}:${line}:${column}: ${reason}`)
+    this.name = 'ConfigParseError'
+  }
+}
+
+/**
+ * Get the parser format for a file path, if it is a text config format
+ */
+export function getConfigFileFormat(filePath: string): ConfigFileFormat | undefined {
+  return CONFIG_FILE_FORMATS[path.extname(filePath).toLowerCase()]
+}
\ No newline at end of file
@@ -6,6 +6,9 @@
 import { useState, useEffect, useMemo, useCallback } from 'react'
 import { useConfig } from './context'
 import { ArchitectResumeConfig } from './schema'
+import { redactSecrets } from './redact'
+import type { SemanticRuleContext } from './rules'
+import type { ConfigPath, ConfigPathValue } from './paths'
 import type { 
   PortfolioProject, 
   Experience, 
@@ -45,12 +48,12 @@ export function usePortfolio() {
   )
   
   const addProject = useCallback(async (project: PortfolioProject) => {
-    const currentProjects = get<PortfolioProject[]>('portfolio.projects', [])
+    const currentProjects = get('portfolio.projects', [])
     await set('portfolio.projects', [...currentProjects, project])
   }, [get, set])
   
   const updateProject = useCallback(async (projectId: string, updates: Partial<PortfolioProject>) => {
-    const currentProjects = get<PortfolioProject[]>('portfolio.projects', [])
+    const currentProjects = get('portfolio.projects', [])
     const updatedProjects = currentProjects.map(p => 
       p.id === projectId ? { ...p, ...updates } : p
     )
@@ -58,7 +61,7 @@ export function usePortfolio() {
   }, [get, set])
   
   const removeProject = useCallback(async (projectId: string) => {
-    const currentProjects = get<PortfolioProject[]>('portfolio.projects', [])
+    const currentProjects = get('portfolio.projects', [])
     const filteredProjects = currentProjects.filter(p => p.id !== projectId)
     await set('portfolio.projects', filteredProjects)
   }, [get, set])
@@ -101,12 +104,12 @@ export function useExperience() {
   )
   
   const addExperience = useCallback(async (experience: Experience) => {
-    const currentExperiences = get<Experience[]>('experience.items', [])
+    const currentExperiences = get('experience.items', [])
     await set('experience.items', [...currentExperiences, experience])
   }, [get, set])
   
   const updateExperience = useCallback(async (experienceId: string, updates: Partial<Experience>) => {
-    const currentExperiences = get<Experience[]>('experience.items', [])
+    const currentExperiences = get('experience.items', [])
     const updatedExperiences = currentExperiences.map(exp => 
       exp.id === experienceId ? { ...exp, ...updates } : exp
     )
@@ -114,7 +117,7 @@ export function useExperience() {
   }, [get, set])
   
   const removeExperience = useCallback(async (experienceId: string) => {
-    const currentExperiences = get<Experience[]>('experience.items', [])
+    const currentExperiences = get('experience.items', [])
     const filteredExperiences = currentExperiences.filter(exp => exp.id !== experienceId)
     await set('experience.items', filteredExperiences)
   }, [get, set])
@@ -156,12 +159,12 @@ export function useEducation() {
   )
   
   const addEducation = useCallback(async (education: Education) => {
-    const currentEducations = get<Education[]>('education.items', [])
+    const currentEducations = get('education.items', [])
     await set('education.items', [...currentEducations, education])
   }, [get, set])
   
   const updateEducation = useCallback(async (educationId: string, updates: Partial<Education>) => {
-    const currentEducations = get<Education[]>('education.items', [])
+    const currentEducations = get('education.items', [])
     const updatedEducations = currentEducations.map(edu => 
       edu.id === educationId ? { ...edu, ...updates } : edu
     )
@@ -169,7 +172,7 @@ export function useEducation() {
   }, [get, set])
   
   const removeEducation = useCallback(async (educationId: string) => {
-    const currentEducations = get<Education[]>('education.items', [])
+    const currentEducations = get('education.items', [])
     const filteredEducations = currentEducations.filter(edu => edu.id !== educationId)
     await set('education.items', filteredEducations)
   }, [get, set])
@@ -222,12 +225,12 @@ export function useSkills() {
   )
   
   const addSkill = useCallback(async (skill: Skill) => {
-    const currentSkills = get<Skill[]>('skills.items', [])
+    const currentSkills = get('skills.items', [])
     await set('skills.items', [...currentSkills, skill])
   }, [get, set])
   
   const updateSkill = useCallback(async (skillName: string, updates: Partial<Skill>) => {
-    const currentSkills = get<Skill[]>('skills.items', [])
+    const currentSkills = get('skills.items', [])
     const updatedSkills = currentSkills.map(skill => 
       skill.name === skillName ? { ...skill, ...updates } : skill
     )
@@ -235,7 +238,7 @@ export function useSkills() {
   }, [get, set])
   
   const removeSkill = useCallback(async (skillName: string) => {
-    const currentSkills = get<Skill[]>('skills.items', [])
+    const currentSkills = get('skills.items', [])
     const filteredSkills = currentSkills.filter(skill => skill.name !== skillName)
     await set('skills.items', filteredSkills)
   }, [get, set])
@@ -365,11 +368,11 @@ export function useThemeCustomization() {
 /**
  * Hook for responsive configuration values
  */
-export function useResponsiveConfig<T>(
-  desktopPath: string,
-  mobilePath?: string,
-  defaultValue?: T
-): T {
+export function useResponsiveConfig<P extends ConfigPath>(
+  desktopPath: P,
+  mobilePath?: P,
+  defaultValue?: ConfigPathValue<P>
+): ConfigPathValue<P> {
   const { get } = useConfig()
   const [isMobile, setIsMobile] = useState(false)
   
@@ -386,15 +389,20 @@ export function useResponsiveConfig<T>(
   
   return useMemo(() => {
     const path = isMobile && mobilePath ? mobilePath : desktopPath
-    return get<T>(path, defaultValue)
+    return get(path, defaultValue)
   }, [get, desktopPath, mobilePath, defaultValue, isMobile])
 }
 
 /**
  * Hook for configuration validation
+ *
+ * The client cannot read the site content semantic rules check against,
+ * so pass what the page renders; rules that need a missing field are skipped.
  */
-export function useConfigValidation() {
+export function useConfigValidation(ruleContext: SemanticRuleContext = {}) {
   const { config, warnings, error } = useConfig()
+  // Compare by value so callers can pass an object literal
+  const contextKey = JSON.stringify(ruleContext)
   const [validationResult, setValidationResult] = useState<{
     isValid: boolean
     errors: string[]
@@ -407,14 +415,23 @@ export function useConfigValidation() {
       
       try {
         const { validateConfig: validate } = await import('./schema')
+        const { validateSemantics, formatSemanticIssue } = await import('./rules')
         const result = validate(config)
+        const semantics = result.data ? validateSemantics(result.data, JSON.parse(contextKey)) : undefined
         
         setValidationResult({
-          isValid: result.success,
-          errors: result.error?.issues.map(issue => 
-            `${issue.path.join('.')}: ${issue.message}`
-          ) || [],
-          warnings,
+          isValid: result.success && !!semantics?.isValid,
+          errors: [
+            ...(result.error?.issues.map(issue => 
+              `${issue.path.join('.')}: ${issue.message}`
+            ) || []),
+            ...(semantics?.errors.map(formatSemanticIssue) || []),
+          ],
+          // Loader warnings may already include the same semantic warnings
+          warnings: Array.from(new Set([
+            ...warnings,
+            ...(semantics?.warnings.map(formatSemanticIssue) || []),
+          ])),
         })
       } catch (err) {
         setValidationResult({
@@ -426,7 +443,7 @@ export function useConfigValidation() {
     }
     
     validateConfig()
-  }, [config, warnings])
+  }, [config, warnings, contextKey])
   
   return {
     ...validationResult,
@@ -439,19 +456,14 @@ export function useConfigValidation() {
  * Hook for configuration persistence
  */
 export function useConfigPersistence() {
-  const { config, get, set } = useConfig()
+  const { config, secrets, transaction } = useConfig()
   
   const exportConfig = useCallback(() => {
     if (!config) return null
     
-    const configCopy = JSON.parse(JSON.stringify(config))
-    
-    // Remove sensitive data
-    delete configCopy.analytics?.googleAnalytics
-    delete configCopy.chatbot?.apiEndpoint
-    
-    return configCopy
-  }, [config])
+    // Secret fields and values from secret references never leave the server
+    return redactSecrets(config, secrets)
+  }, [config, secrets])
   
   const importConfig = useCallback(async (importedConfig: Partial<ArchitectResumeConfig>) => {
     try {
@@ -462,15 +474,12 @@ export function useConfigPersistence() {
         throw new Error('Invalid configuration format')
       }
       
-      // Merge with existing config
-      const currentConfig = get('', {})
-      const mergedConfig = { ...currentConfig, ...importedConfig }
-      
-      await set('', mergedConfig)
+      // Replace imported sections of the existing config in one change
+      await transaction(tx => tx.update(importedConfig, { merge: false }))
     } catch (error) {
       throw new Error(`Failed to import configuration: ${error}`)
     }
-  }, [get, set])
+  }, [transaction])
   
   const downloadConfig = useCallback(() => {
     const exported = exportConfig()
@@ -501,7 +510,7 @@ export function useConfigPersistence() {
  * Hook for configuration history/undo
  */
 export function useConfigHistory() {
-  const { config, set } = useConfig()
+  const { config, transaction } = useConfig()
   const [history, setHistory] = useState<ArchitectResumeConfig[]>([])
   const [currentIndex, setCurrentIndex] = useState(-1)
   
@@ -526,17 +535,17 @@ export function useConfigHistory() {
     if (!canUndo) return
     
     const previousConfig = history[currentIndex - 1]
-    await set('', previousConfig)
+    await transaction(tx => tx.update(previousConfig, { merge: false }))
     setCurrentIndex(currentIndex - 1)
-  }, [canUndo, history, currentIndex, set])
+  }, [canUndo, history, currentIndex, transaction])
   
   const redo = useCallback(async () => {
     if (!canRedo) return
     
     const nextConfig = history[currentIndex + 1]
-    await set('', nextConfig)
+    await transaction(tx => tx.update(nextConfig, { merge: false }))
     setCurrentIndex(currentIndex + 1)
-  }, [canRedo, history, currentIndex, set])
+  }, [canRedo, history, currentIndex, transaction])
   
   const clearHistory = useCallback(() => {
     setHistory([])
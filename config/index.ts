@@ -6,9 +6,28 @@
 // Core exports
 export * from './types'
 export * from './schema'
+export * from './json-schema'
+export * from './migrations'
+export * from './rules'
+export * from './paths'
+export * from './patch'
+export * from './audit'
+export * from './legacy'
 export * from './environment'
 export * from './template'
+export * from './formats'
+// YAML and TOML parsing is server-only: import './parsers' and './diagnostics' directly
+export * from './define'
 export * from './loader'
+export * from './directory'
+export * from './plugins'
+export * from './cache'
+export * from './watcher'
+export * from './provenance'
+export * from './secrets'
+export * from './redact'
+export * from './remote'
+export * from './encryption'
 export * from './manager'
 
 // React exports
@@ -0,0 +1,226 @@
+/**
+ * JSON Schema Generation
+ * Converts the zod configuration schemas to JSON Schema (draft 2020-12)
+ */
+
+import { z } from 'zod'
+import { ArchitectResumeConfigSchema } from './schema'
+
+export type JSONSchema = Record<string, any>
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+const TEMPLATE_STRING_PATTERN = '\\{\\{[^}]+\\}\\}'
+
+const SECRET_REFERENCE_REF = '#/$defs/secretReference'
+
+const SECRET_REFERENCE_SCHEMA: JSONSchema = {
+  type: 'object',
+  description: 'Secret resolved on the server, e.g. env:CONTACT_FORM_API_KEY or file:/run/secrets/key',
+  properties: {
+    $secret: { type: 'string', pattern: '^(env|file):.+' },
+  },
+  required: ['$secret'],
+  additionalProperties: false,
+}
+
+interface ConversionContext {
+  // Objects outside arrays are deep-merged with defaults, so no field is required there
+  mergeable: boolean
+}
+
+/**
+ * Expand a case-insensitive regex into an equivalent pattern without flags
+ */
+function toCaseInsensitivePattern(source: string): string {
+  let result = ''
+  let inClass = false
+  
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    
+    if (char === '\\') {
+      result += char + (source[i + 1] ?? '')
+      i++
+    } else if (char === '[') {
+      inClass = true
+      result += char
+    } else if (char === ']') {
+      inClass = false
+      result += char
+    } else if (inClass && /[a-z]/i.test(char) && source[i + 1] === '-' && /[a-z]/i.test(source[i + 2] ?? '')) {
+      const end = source[i + 2]
+      result += `${char.toUpperCase()}-${end.toUpperCase()}${char.toLowerCase()}-${end.toLowerCase()}`
+      i += 2
+    } else if (/[a-z]/i.test(char)) {
+      const pair = `${char.toUpperCase()}${char.toLowerCase()}`
+      result += inClass ? pair : `[${pair}]`
+    } else {
+      result += char
+    }
+  }
+  
+  return result
+}
+
+function convertString(schema: z.ZodString): JSONSchema {
+  const result: JSONSchema = { type: 'string' }
+  
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value
+        break
+      case 'max':
+        result.maxLength = check.value
+        break
+      case 'email':
+        result.format = 'email'
+        break
+      case 'url':
+        result.format = 'uri'
+        break
+      case 'regex':
+        result.pattern = check.regex.flags.includes('i')
+          ? toCaseInsensitivePattern(check.regex.source)
+          : check.regex.source
+        break
+    }
+  }
+  
+  // Template strings are resolved before validation, so accept them in place of a format
+  const alternatives: JSONSchema[] = [result]
+  if (result.format || result.pattern) {
+    alternatives.push({ type: 'string', pattern: TEMPLATE_STRING_PATTERN })
+  }
+  
+  // Any string may come from a secret reference
+  alternatives.push({ $ref: SECRET_REFERENCE_REF })
+  
+  return { anyOf: alternatives }
+}
+
+function convertNumber(schema: z.ZodNumber): JSONSchema {
+  const result: JSONSchema = { type: 'number' }
+  
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer'
+        break
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+        break
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+        break
+    }
+  }
+  
+  return result
+}
+
+function convertObject(schema: z.ZodObject<any>, context: ConversionContext): JSONSchema {
+  const properties: Record<string, JSONSchema> = {}
+  const required: string[] = []
+  
+  for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    properties[key] = convertSchema(value, context)
+    if (!context.mergeable && !value.isOptional()) {
+      required.push(key)
+    }
+  }
+  
+  const catchall = schema._def.catchall
+  const result: JSONSchema = {
+    type: 'object',
+    properties,
+    additionalProperties: catchall instanceof z.ZodNever ? false : convertSchema(catchall, context),
+  }
+  
+  if (required.length > 0) {
+    result.required = required
+  }
+  
+  return result
+}
+
+/**
+ * Convert a zod schema to JSON Schema
+ */
+function convertSchema(schema: z.ZodTypeAny, context: ConversionContext): JSONSchema {
+  let result: JSONSchema
+  
+  if (schema instanceof z.ZodDefault) {
+    result = { ...convertSchema(schema._def.innerType, context), default: schema._def.defaultValue() }
+  } else if (schema instanceof z.ZodOptional) {
+    result = convertSchema(schema.unwrap(), context)
+  } else if (schema instanceof z.ZodNullable) {
+    result = { anyOf: [convertSchema(schema.unwrap(), context), { type: 'null' }] }
+  } else if (schema instanceof z.ZodString) {
+    result = convertString(schema)
+  } else if (schema instanceof z.ZodNumber) {
+    result = convertNumber(schema)
+  } else if (schema instanceof z.ZodBoolean) {
+    result = { type: 'boolean' }
+  } else if (schema instanceof z.ZodEnum) {
+    result = { type: 'string', enum: [...schema.options] }
+  } else if (schema instanceof z.ZodLiteral) {
+    result = { const: schema.value }
+  } else if (schema instanceof z.ZodArray) {
+    result = { type: 'array', items: convertSchema(schema.element, { mergeable: false }) }
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value
+  } else if (schema instanceof z.ZodRecord) {
+    result = { type: 'object', additionalProperties: convertSchema(schema._def.valueType, context) }
+  } else if (schema instanceof z.ZodObject) {
+    result = convertObject(schema, context)
+  } else if (schema instanceof z.ZodUnion) {
+    result = { anyOf: schema.options.map((option: z.ZodTypeAny) => convertSchema(option, context)) }
+  } else {
+    // Anything else is accepted as-is
+    result = {}
+  }
+  
+  if (schema.description && !result.description) {
+    result.description = schema.description
+  }
+  
+  return result
+}
+
+/**
+ * Convert any zod schema to a standalone JSON Schema document
+ */
+export function zodToJsonSchema(
+  schema: z.ZodTypeAny,
+  options: { mergeable?: boolean } = {}
+): JSONSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...convertSchema(schema, { mergeable: options.mergeable ?? false }),
+    $defs: {
+      secretReference: SECRET_REFERENCE_SCHEMA,
+    },
+  }
+}
+
+/**
+ * Generate the JSON Schema for architect-resume configuration files
+ *
+ * Fields outside arrays are never required because every file is merged with
+ * the defaults and other sources; array items must be complete.
+ */
+export function generateConfigJsonSchema(): JSONSchema {
+  const schema = zodToJsonSchema(ArchitectResumeConfigSchema, { mergeable: true })
+  
+  return {
+    ...schema,
+    $id: 'https://github.com/tbowman01/architect-resume/config/architect-resume.schema.json',
+    title: 'architect-resume configuration',
+    properties: {
+      $schema: { type: 'string', description: 'JSON Schema reference for editor validation' },
+      ...schema.properties,
+    },
+  }
+}
\ No newline at end of file
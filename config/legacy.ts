@@ -0,0 +1,254 @@
+/**
+ * Legacy Template Shape Adapter
+ * Converts between the setup wizard's template shape and ArchitectResumeConfig
+ */
+
+import { z } from 'zod'
+import { ArchitectResumeConfig, ArchitectResumeConfigSchema } from './schema'
+
+/**
+ * Configuration shape written by scripts/setup-template.js and used by
+ * template.config.json and examples/*.json
+ */
+export interface TemplateConfig {
+  personal?: {
+    name?: string
+    title?: string
+    bio?: string
+    tagline?: string
+  }
+  contact?: {
+    email?: string
+    phone?: string
+    location?: string
+    officeHours?: string
+  }
+  social?: Record<string, string | undefined>
+  seo?: {
+    title?: string
+    description?: string
+    keywords?: string
+  }
+  branding?: {
+    colors?: { primary?: string; secondary?: string; accent?: string }
+    fonts?: { heading?: string; body?: string }
+  }
+  features?: {
+    blog?: boolean
+    chatbot?: boolean
+    portfolio?: boolean
+    testimonials?: boolean
+    darkMode?: boolean
+  }
+  content?: {
+    hero?: { heading?: string; subheading?: string; description?: string }
+    about?: { heading?: string; description?: string }
+  }
+}
+
+export interface AdapterResult<T> {
+  value: T
+  unmapped: string[]
+}
+
+/**
+ * Template path -> ArchitectResumeConfig path
+ */
+const FIELD_MAP: Array<[string, string]> = [
+  ['personal.name', 'personal.name'],
+  ['personal.title', 'personal.title'],
+  ['personal.bio', 'personal.bio'],
+  ['contact.email', 'personal.email'],
+  ['contact.phone', 'personal.phone'],
+  ['contact.location', 'personal.location'],
+  ['social.website', 'personal.website'],
+  ['social.linkedin', 'social.linkedin'],
+  ['social.github', 'social.github'],
+  ['social.twitter', 'social.twitter'],
+  ['social.instagram', 'social.instagram'],
+  ['social.behance', 'social.behance'],
+  ['social.dribbble', 'social.dribbble'],
+  ['social.facebook', 'social.facebook'],
+  ['seo.title', 'seo.title'],
+  ['seo.description', 'seo.description'],
+  ['seo.keywords', 'seo.keywords'],
+  ['branding.colors.primary', 'theme.primaryColor'],
+  ['branding.colors.secondary', 'theme.secondaryColor'],
+  ['branding.colors.accent', 'theme.accentColor'],
+  ['branding.fonts.body', 'theme.fonts.primary'],
+  ['branding.fonts.heading', 'theme.fonts.secondary'],
+  ['features.blog', 'features.blog'],
+  ['features.chatbot', 'features.chatbot'],
+  ['features.portfolio', 'features.portfolio'],
+  ['features.darkMode', 'features.darkMode'],
+]
+
+/**
+ * Keys that only exist in the template shape
+ */
+const TEMPLATE_ONLY_KEYS = [
+  'personal.tagline',
+  'contact.email',
+  'contact.phone',
+  'contact.location',
+  'contact.officeHours',
+  'social.website',
+  'social.pinterest',
+  'features.testimonials',
+  'branding',
+  'content',
+]
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+function getValue(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj)
+}
+
+function setValue(obj: any, path: string, value: any): void {
+  const keys = path.split('.')
+  let current = obj
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(current[key])) {
+      current[key] = {}
+    }
+    current = current[key]
+  }
+  current[keys[keys.length - 1]] = value
+}
+
+function deleteValue(obj: any, path: string): void {
+  const keys = path.split('.')
+  const parents = [obj]
+  for (const key of keys.slice(0, -1)) {
+    const next = parents[parents.length - 1]?.[key]
+    if (!isObject(next)) return
+    parents.push(next)
+  }
+  delete parents[parents.length - 1][keys[keys.length - 1]]
+  
+  // Remove parents emptied by the deletion
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]).length > 0) break
+    delete parents[i - 1][keys[i - 1]]
+  }
+}
+
+function flattenLeaves(obj: any, path: string[] = [], leaves: string[] = []): string[] {
+  for (const [key, value] of Object.entries(obj)) {
+    const currentPath = [...path, key]
+    if (isObject(value) && Object.keys(value).length > 0) {
+      flattenLeaves(value, currentPath, leaves)
+    } else {
+      leaves.push(currentPath.join('.'))
+    }
+  }
+  return leaves
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType)
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema.unwrap())
+  }
+  return schema
+}
+
+/**
+ * Check whether a dot path exists in the ArchitectResumeConfig schema
+ */
+function isConfigPath(path: string): boolean {
+  let schema: z.ZodTypeAny = ArchitectResumeConfigSchema
+  
+  for (const key of path.split('.')) {
+    schema = unwrapSchema(schema)
+    if (schema instanceof z.ZodObject) {
+      const shape = schema.shape as Record<string, z.ZodTypeAny>
+      if (!(key in shape)) return false
+      schema = shape[key]
+    } else {
+      // Records and arrays accept any nested key
+      return schema instanceof z.ZodRecord || schema instanceof z.ZodArray
+    }
+  }
+  
+  return true
+}
+
+/**
+ * Check whether a document uses any template-only fields
+ */
+export function isTemplateShape(document: any): boolean {
+  if (!isObject(document)) return false
+  return (
+    TEMPLATE_ONLY_KEYS.some(key => getValue(document, key) !== undefined) ||
+    typeof document.seo?.keywords === 'string'
+  )
+}
+
+/**
+ * Convert a template-shaped document to ArchitectResumeConfig
+ *
+ * Documents already in the current shape pass through unchanged; template
+ * fields without a counterpart are removed and listed in `unmapped`.
+ */
+export function fromTemplateConfig(
+  document: TemplateConfig | Partial<ArchitectResumeConfig>
+): AdapterResult<Partial<ArchitectResumeConfig>> {
+  const source: any = JSON.parse(JSON.stringify(document))
+  const value: any = JSON.parse(JSON.stringify(document))
+  
+  for (const [templatePath, configPath] of FIELD_MAP) {
+    if (templatePath === configPath) continue
+    
+    const fieldValue = getValue(source, templatePath)
+    if (fieldValue === undefined) continue
+    
+    deleteValue(value, templatePath)
+    
+    // Never clobber a value already present in the current shape
+    if (getValue(source, configPath) === undefined) {
+      setValue(value, configPath, fieldValue)
+    }
+  }
+  
+  if (typeof value.seo?.keywords === 'string') {
+    value.seo.keywords = value.seo.keywords
+      .split(',')
+      .map((keyword: string) => keyword.trim())
+      .filter(Boolean)
+  }
+  
+  const unmapped = flattenLeaves(value).filter(path => path !== '$schema' && !isConfigPath(path))
+  unmapped.forEach(path => deleteValue(value, path))
+  
+  return { value, unmapped }
+}
+
+/**
+ * Convert ArchitectResumeConfig to the template shape
+ *
+ * Configuration with no template counterpart is listed in `unmapped`.
+ */
+export function toTemplateConfig(
+  config: Partial<ArchitectResumeConfig>
+): AdapterResult<TemplateConfig> {
+  const value: any = {}
+  const mappedPaths = new Set<string>(['schemaVersion'])
+  
+  for (const [templatePath, configPath] of FIELD_MAP) {
+    const fieldValue = getValue(config, configPath)
+    if (fieldValue === undefined) continue
+    
+    setValue(value, templatePath, Array.isArray(fieldValue) && templatePath === 'seo.keywords'
+      ? fieldValue.join(', ')
+      : fieldValue)
+    mappedPaths.add(configPath)
+  }
+  
+  const unmapped = flattenLeaves(config).filter(path => !mappedPaths.has(path))
+  
+  return { value: value as TemplateConfig, unmapped }
+}
\ No newline at end of file
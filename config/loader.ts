@@ -5,17 +5,52 @@
 
 import { promises as fs } from 'fs'
 import path from 'path'
-import { ArchitectResumeConfig, validateConfig } from './schema'
-import { loadEnvironmentConfig, getRuntimeEnvironment, envLog } from './environment'
-import { processConfigurationTemplates } from './template'
+import { ArchitectResumeConfig, validateConfig, getTemplateEscaping, getSecretFieldPaths, CURRENT_SCHEMA_VERSION } from './schema'
+import { loadEnvironmentOverrides, getRuntimeEnvironment, envLog } from './environment'
+import { resolveConfigurationTemplates, registerTemplateFunctions } from './template'
+import { ConfigParseError } from './formats'
+import { loadTypeScriptModule } from './transpile'
+import { resolveUserConfig } from './define'
+import { trackProvenance, ConfigProvenance } from './provenance'
+import { migrateConfig, detectSchemaVersion, LEGACY_SCHEMA_VERSION } from './migrations'
+import { validateSemantics, formatSemanticIssue, SemanticRuleContext } from './rules'
+import { loadConfigDirectory, watchConfigDirectory, listConfigDirectoryFiles } from './directory'
+import { resolveSecrets } from './secrets'
+import { loadEncryptedConfig, ENCRYPTED_CONFIG_PATH } from './encryption'
+import { loadRemoteConfig, clearRemoteConfigCache, getRemoteConfigState } from './remote'
+import {
+  getCachedConfig,
+  setCachedConfig,
+  deleteCachedConfig,
+  evictCachedConfigs,
+  getCachedConfigEntries,
+  getCacheCounters,
+  getConfigCacheOptions,
+  isCachedConfigValid,
+  fingerprintFiles,
+  computeConfigChecksum,
+} from './cache'
+import { watchConfigFile, debounce, DEFAULT_WATCH_DEBOUNCE } from './watcher'
+import {
+  ConfigSourcePlugin,
+  SourceLoadContext,
+  registerConfigSourcePlugin,
+  getConfigSourcePlugin,
+  getSourceCacheKey,
+  getSourcePriority,
+} from './plugins'
+
+export type BuiltInSourceType = 'file' | 'template' | 'directory' | 'encrypted' | 'url' | 'env' | 'default'
 
 export interface ConfigSource {
-  type: 'file' | 'url' | 'env' | 'default'
+  // Built-in type or the type of a registered source plugin
+  type: BuiltInSourceType | (string & {})
   path?: string
   url?: string
-  priority: number
+  priority?: number // Defaults to the source plugin's priority
   cache?: boolean
   ttl?: number // Time to live in milliseconds
+  options?: Record<string, any> // Plugin-specific settings
 }
 
 export interface LoadedConfig {
@@ -25,22 +60,16 @@ export interface LoadedConfig {
   isValid: boolean
   errors: string[]
   warnings: string[]
+  provenance: ConfigProvenance
+  // Paths of values resolved from secret references or held by secret fields; never send these to the client
+  secrets: string[]
 }
 
-interface CachedConfig {
-  config: ArchitectResumeConfig
-  timestamp: number
-  ttl: number
-  source: ConfigSource
-}
-
-// In-memory cache for loaded configurations
-const configCache = new Map<string, CachedConfig>()
-
 /**
  * Default configuration values
  */
 const DEFAULT_CONFIG: Partial<ArchitectResumeConfig> = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   personal: {
     name: 'Your Name',
     title: 'Architect',
@@ -141,6 +170,35 @@ const DEFAULT_CONFIG: Partial<ArchitectResumeConfig> = {
   },
 }
 
+/**
+ * Configs from modules that register template functions; caching them would skip the registration
+ */
+const configsWithTemplateFunctions = new WeakSet<object>()
+
+/**
+ * Register the template functions a config module exports as `templateFunctions`
+ */
+function registerModuleTemplateFunctions(configModule: any, config: any): any {
+  if (configModule.templateFunctions) {
+    registerTemplateFunctions(configModule.templateFunctions)
+    if (config && typeof config === 'object') configsWithTemplateFunctions.add(config)
+  }
+  return config
+}
+
+/**
+ * Extensions of config files that are evaluated as modules
+ */
+const CONFIG_MODULE_EXTENSIONS = ['.js', '.mjs', '.ts', '.mts', '.cts']
+
+/**
+ * Check whether a config file is a module; its data can depend on imports and
+ * the environment, which the file's own content does not capture
+ */
+function isConfigModule(filePath?: string): boolean {
+  return Boolean(filePath) && CONFIG_MODULE_EXTENSIONS.includes(path.extname(filePath!).toLowerCase())
+}
+
 /**
  * Load configuration from a file
  */
@@ -155,24 +213,33 @@ async function loadConfigFromFile(filePath: string): Promise<any> {
     
     switch (extension) {
       case '.json':
-        return JSON.parse(fileContent)
+      case '.yaml':
+      case '.yml':
+      case '.toml':
+        // Drop the editor-only JSON Schema reference
+        const { parseConfigFile } = await import('./parsers')
+        const { $schema, ...parsed } = parseConfigFile(fileContent, filePath) ?? {}
+        return parsed
       
       case '.js':
       case '.mjs':
         // For ES modules or CommonJS
         delete require.cache[absolutePath]
         const jsModule = await import(absolutePath)
-        return jsModule.default || jsModule
+        return registerModuleTemplateFunctions(
+          jsModule,
+          await resolveUserConfig(jsModule.default || jsModule, getRuntimeEnvironment())
+        )
       
       case '.ts':
-        // TypeScript files need to be compiled first
-        // In a real implementation, you might use esbuild or similar
-        throw new Error('TypeScript config files need to be pre-compiled')
-      
-      case '.yaml':
-      case '.yml':
-        // Would need yaml parser
-        throw new Error('YAML config files require yaml parser')
+      case '.mts':
+      case '.cts':
+        // Transpiled and evaluated in-process; default export may be a factory
+        const tsModule = await loadTypeScriptModule(absolutePath)
+        return registerModuleTemplateFunctions(
+          tsModule,
+          await resolveUserConfig(tsModule.default ?? tsModule, getRuntimeEnvironment())
+        )
       
       default:
         throw new Error(`Unsupported config file format: ${extension}`)
@@ -184,83 +251,124 @@ async function loadConfigFromFile(filePath: string): Promise<any> {
 }
 
 /**
- * Load configuration from URL
+ * Source plugins for the built-in source types
  */
-async function loadConfigFromURL(url: string): Promise<any> {
-  try {
-    const response = await fetch(url)
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-    
-    const contentType = response.headers.get('content-type')
-    if (contentType?.includes('application/json')) {
-      return await response.json()
-    } else {
-      const text = await response.text()
-      return JSON.parse(text)
-    }
-  } catch (error) {
-    envLog('error', `Failed to load config from URL: ${url}`, error)
-    throw error
-  }
-}
+export const BUILT_IN_SOURCE_PLUGINS: ConfigSourcePlugin[] = [
+  {
+    type: 'default',
+    priority: 0,
+    load: () => DEFAULT_CONFIG,
+  },
+  {
+    type: 'file',
+    priority: 10,
+    async load(source) {
+      if (!source.path) throw new Error('File source requires path')
+      return loadConfigFromFile(source.path)
+    },
+    watch: (source, onChange) => watchConfigFile(source.path!, onChange),
+    files: source => source.path ? [source.path] : [],
+    persistent: source => !isConfigModule(source.path),
+  },
+  {
+    type: 'template',
+    priority: 10,
+    async load(source) {
+      if (!source.path) throw new Error('Template source requires path')
+      const config = await loadConfigFromFile(source.path)
+      // Unversioned template files are read as the legacy template shape
+      if (config && typeof config.schemaVersion !== 'number') {
+        return { ...config, schemaVersion: LEGACY_SCHEMA_VERSION }
+      }
+      return config
+    },
+    watch: (source, onChange) => watchConfigFile(source.path!, onChange),
+    files: source => source.path ? [source.path] : [],
+    persistent: source => !isConfigModule(source.path),
+  },
+  {
+    type: 'directory',
+    priority: 15,
+    async load(source) {
+      if (!source.path) throw new Error('Directory source requires path')
+      return loadConfigDirectory(source.path)
+    },
+    watch: (source, onChange) => watchConfigDirectory(source.path!, onChange),
+    cacheKey: source => `directory:${source.path}`,
+    files: source => listConfigDirectoryFiles(source.path!),
+  },
+  {
+    type: 'url',
+    priority: 20,
+    async load(source) {
+      if (!source.url) throw new Error('URL source requires url')
+      return loadRemoteConfig(source.url, source.options, source.ttl)
+    },
+  },
+  {
+    type: 'encrypted',
+    priority: 25,
+    async load(source) {
+      if (!source.path) throw new Error('Encrypted source requires path')
+      return loadEncryptedConfig(source.path)
+    },
+    watch: (source, onChange) => watchConfigFile(source.path!, onChange),
+    files: source => source.path ? [source.path] : [],
+  },
+  {
+    type: 'env',
+    priority: 30,
+    load(_source, { warn }) {
+      const { config, warnings } = loadEnvironmentOverrides()
+      warnings.forEach(warn)
+      return config
+    },
+  },
+]
+
+BUILT_IN_SOURCE_PLUGINS.forEach(registerConfigSourcePlugin)
 
 /**
- * Check if cached config is still valid
+ * Sources used when none are given
  */
-function isCacheValid(cached: CachedConfig): boolean {
-  return Date.now() - cached.timestamp < cached.ttl
-}
+const DEFAULT_SOURCES: ConfigSource[] = [
+  { type: 'default', priority: 0 },
+  { type: 'file', path: 'config/architect-resume.json', priority: 10, cache: true },
+  { type: 'file', path: 'config/architect-resume.local.json', priority: 20, cache: true },
+  { type: 'encrypted', path: ENCRYPTED_CONFIG_PATH, priority: 25, cache: true },
+  { type: 'env', priority: 30 },
+]
 
 /**
  * Load configuration from a single source
  */
-async function loadFromSource(source: ConfigSource): Promise<any> {
-  const cacheKey = source.path || source.url || 'default'
+async function loadFromSource(source: ConfigSource, context: SourceLoadContext): Promise<any> {
+  const plugin = getConfigSourcePlugin(source.type)
+  if (!plugin) {
+    throw new Error(`Unknown config source type: ${source.type}`)
+  }
+  
+  const cacheKey = getSourceCacheKey(source)
+  // Sources that list their files expire from the cache as soon as one changes
+  const fingerprint = source.cache && plugin.files
+    ? await fingerprintFiles(await plugin.files(source))
+    : undefined
+  const persist = plugin.persistent?.(source) ?? true
   
   // Check cache first
   if (source.cache) {
-    const cached = configCache.get(cacheKey)
-    if (cached && isCacheValid(cached)) {
+    const cached = await getCachedConfig(cacheKey, fingerprint, persist)
+    if (cached !== undefined) {
       envLog('info', `Using cached config from: ${cacheKey}`)
-      return cached.config
+      return cached
     }
   }
   
-  let config: any
-  
-  switch (source.type) {
-    case 'file':
-      if (!source.path) throw new Error('File source requires path')
-      config = await loadConfigFromFile(source.path)
-      break
-    
-    case 'url':
-      if (!source.url) throw new Error('URL source requires url')
-      config = await loadConfigFromURL(source.url)
-      break
-    
-    case 'env':
-      config = loadEnvironmentConfig()
-      break
-    
-    case 'default':
-      config = DEFAULT_CONFIG
-      break
-    
-    default:
-      throw new Error(`Unknown config source type: ${source.type}`)
-  }
+  const config = await plugin.load(source, context)
   
   // Cache the result if caching is enabled
-  if (source.cache && config) {
-    configCache.set(cacheKey, {
-      config,
-      timestamp: Date.now(),
-      ttl: source.ttl || 300000, // 5 minutes default
-      source,
-    })
+  if (source.cache && config && !configsWithTemplateFunctions.has(config)) {
+    await setCachedConfig(cacheKey, config, source, fingerprint, persist)
   }
   
   return config
@@ -295,6 +403,26 @@ function mergeConfigs(...configs: any[]): any {
   }, {})
 }
 
+/**
+ * Load the site content semantic rules check against from the app's data modules
+ */
+export async function loadSemanticRuleContext(
+  appDir: string = path.join(process.cwd(), 'app')
+): Promise<SemanticRuleContext> {
+  const context: SemanticRuleContext = {}
+  
+  try {
+    const { blogPosts } = await loadTypeScriptModule(path.join(appDir, 'data', 'blog.ts'))
+    if (Array.isArray(blogPosts)) {
+      context.featuredPostCount = blogPosts.filter((post: { featured?: boolean }) => post.featured).length
+    }
+  } catch (error) {
+    envLog('warn', 'Blog posts are not available to semantic rules', error)
+  }
+  
+  return context
+}
+
 /**
  * Load configuration from multiple sources
  */
@@ -304,40 +432,66 @@ export async function loadConfiguration(
     processTemplates?: boolean
     customVars?: Record<string, any>
     validateSchema?: boolean
+    // Fail on unresolved template variables and unknown template functions
+    strictTemplates?: boolean
+    // Site content for semantic rules; loaded from the app when not given
+    ruleContext?: SemanticRuleContext
   } = {}
 ): Promise<LoadedConfig> {
   const {
     processTemplates = true,
     customVars = {},
     validateSchema = true,
+    strictTemplates = false,
   } = options
   
   const errors: string[] = []
   const warnings: string[] = []
   const loadedConfigs: any[] = []
+  const provenance: ConfigProvenance = {}
   
-  // Default sources if none provided
-  const defaultSources: ConfigSource[] = [
-    { type: 'default', priority: 0 },
-    { type: 'file', path: 'config/architect-resume.json', priority: 10, cache: true },
-    { type: 'file', path: 'config/architect-resume.local.json', priority: 20, cache: true },
-    { type: 'env', priority: 30 },
-  ]
   
-  const allSources = sources.length > 0 ? sources : defaultSources
+  const allSources = sources.length > 0 ? sources : DEFAULT_SOURCES
   
   // Sort sources by priority (lower number = higher priority)
-  const sortedSources = [...allSources].sort((a, b) => a.priority - b.priority)
+  const sortedSources = allSources
+    .map(source => ({ ...source, priority: getSourcePriority(source) }))
+    .sort((a, b) => a.priority - b.priority)
   
   // Load from each source
   for (const source of sortedSources) {
     try {
       envLog('info', `Loading config from ${source.type}:`, source.path || source.url)
-      const config = await loadFromSource(source)
+      let config = await loadFromSource(source, {
+        warn: message => {
+          envLog('warn', message)
+          warnings.push(message)
+        },
+      })
+      
+      // Upgrade documents written against an older schema version
+      if (config && detectSchemaVersion(config) !== CURRENT_SCHEMA_VERSION) {
+        const migration = migrateConfig(config)
+        config = migration.config
+        migration.warnings.forEach(warning => {
+          warnings.push(`${source.path || source.url || source.type}: ${warning}`)
+        })
+        envLog('info', `Migrated config from schema v${migration.fromVersion} to v${migration.toVersion}:`, source.path || source.url)
+      }
+      
       if (config) {
         loadedConfigs.push(config)
+        trackProvenance(provenance, source, config)
       }
     } catch (error) {
+      if (error instanceof ConfigParseError) {
+        // A file that exists but cannot be parsed is an error, not a missing overlay
+        const errorMessage = `Failed to parse config file ${error.message}`
+        envLog('error', errorMessage)
+        errors.push(errorMessage)
+        continue
+      }
+      
       const errorMessage = `Failed to load from ${source.type} ${source.path || source.url}: ${error}`
       envLog('warn', errorMessage)
       warnings.push(errorMessage)
@@ -356,6 +510,8 @@ export async function loadConfiguration(
       isValid: false,
       errors,
       warnings,
+      provenance: trackProvenance({}, { type: 'default', priority: 0 }, DEFAULT_CONFIG),
+      secrets: [],
     }
   }
   
@@ -365,7 +521,19 @@ export async function loadConfiguration(
   // Process templates if enabled
   if (processTemplates) {
     try {
-      mergedConfig = processConfigurationTemplates(mergedConfig, customVars)
+      const resolution = resolveConfigurationTemplates(mergedConfig, customVars, 'BASIC', {
+        strict: strictTemplates,
+        escaping: getTemplateEscaping,
+      })
+      mergedConfig = resolution.config
+      resolution.errors.forEach(errorMessage => {
+        envLog('error', errorMessage)
+        errors.push(errorMessage)
+      })
+      resolution.warnings.forEach(warning => {
+        envLog('warn', warning)
+        warnings.push(warning)
+      })
     } catch (error) {
       const errorMessage = `Template processing failed: ${error}`
       warnings.push(errorMessage)
@@ -373,8 +541,16 @@ export async function loadConfiguration(
     }
   }
   
+  // Resolve secrets after templates so no template can copy a secret into another field
+  const secretResolution = await resolveSecrets(mergedConfig)
+  mergedConfig = secretResolution.config
+  secretResolution.errors.forEach(errorMessage => {
+    envLog('error', errorMessage)
+    errors.push(errorMessage)
+  })
+  
   // Validate schema if enabled
-  let isValid = true
+  let isValid = errors.length === 0
   if (validateSchema) {
     const validation = validateConfig(mergedConfig)
     if (!validation.success) {
@@ -385,6 +561,15 @@ export async function loadConfiguration(
           errors.push(errorMessage)
         })
       }
+    } else {
+      // Cross-field rules assume a schema-valid shape
+      const ruleContext = options.ruleContext || await loadSemanticRuleContext()
+      const semantics = validateSemantics(validation.data as ArchitectResumeConfig, ruleContext)
+      if (!semantics.isValid) {
+        isValid = false
+      }
+      errors.push(...semantics.errors.map(formatSemanticIssue))
+      warnings.push(...semantics.warnings.map(formatSemanticIssue))
     }
     mergedConfig = validation.data || mergedConfig
   }
@@ -398,6 +583,9 @@ export async function loadConfiguration(
     isValid,
     errors,
     warnings,
+    provenance,
+    // Secret fields are redacted however their value was set
+    secrets: Array.from(new Set([...secretResolution.secrets, ...getSecretFieldPaths(mergedConfig)])),
   }
 }
 
@@ -413,6 +601,7 @@ export const ConfigPresets = {
       { type: 'default', priority: 0 },
       { type: 'file', path: 'config/architect-resume.json', priority: 10, cache: false },
       { type: 'file', path: 'config/architect-resume.dev.json', priority: 20, cache: false },
+      { type: 'encrypted', path: ENCRYPTED_CONFIG_PATH, priority: 25, cache: false },
       { type: 'file', path: 'config/architect-resume.local.json', priority: 30, cache: false },
       { type: 'env', priority: 40 },
       ...customSources,
@@ -436,6 +625,7 @@ export const ConfigPresets = {
       { type: 'default', priority: 0 },
       { type: 'file', path: 'config/architect-resume.json', priority: 10, cache: true, ttl: 600000 },
       { type: 'file', path: 'config/architect-resume.prod.json', priority: 20, cache: true, ttl: 600000 },
+      { type: 'encrypted', path: ENCRYPTED_CONFIG_PATH, priority: 25, cache: true, ttl: 600000 },
       { type: 'env', priority: 30 },
       ...customSources,
     ]
@@ -443,6 +633,8 @@ export const ConfigPresets = {
     return loadConfiguration(sources, {
       processTemplates: true,
       validateSchema: true,
+      // A typo in a template should not ship an empty value
+      strictTemplates: true,
       customVars: {
         environment: 'production',
         debug: false,
@@ -473,92 +665,146 @@ export const ConfigPresets = {
 }
 
 /**
- * Watch configuration files for changes
+ * Watch configuration sources for changes
+ *
+ * Bursts of file events are debounced into a single reload, and the callback
+ * only runs when the merged configuration differs from the last one seen.
  */
 export function watchConfiguration(
   sources: ConfigSource[],
-  callback: (config: LoadedConfig) => void
+  callback: (config: LoadedConfig) => void,
+  options: {
+    debounce?: number
+    // Configuration already loaded from these sources, used as the baseline
+    initial?: LoadedConfig
+  } = {}
 ): () => void {
+  const watchedSources = sources.length > 0 ? sources : DEFAULT_SOURCES
   const watchers: Array<() => void> = []
+  const changedSources = new Set<ConfigSource>()
+  let closed = false
+  let reloading = false
+  let reloadAgain = false
   
-  // Only watch file sources
-  const fileSources = sources.filter(source => 
-    source.type === 'file' && source.path
-  )
+  let lastChecksum: Promise<string | undefined> = options.initial
+    ? Promise.resolve(computeConfigChecksum(options.initial.config))
+    : loadConfiguration(sources)
+      .then(loaded => computeConfigChecksum(loaded.config))
+      .catch(() => undefined)
   
-  for (const source of fileSources) {
-    if (!source.path) continue
+  const reload = async () => {
+    if (reloading) {
+      reloadAgain = true
+      return
+    }
+    reloading = true
     
     try {
-      const absolutePath = path.isAbsolute(source.path)
-        ? source.path
-        : path.join(process.cwd(), source.path)
+      // Clear cache for the sources that changed
+      const changed = Array.from(changedSources)
+      changedSources.clear()
+      for (const source of changed) {
+        await deleteCachedConfig(getSourceCacheKey(source))
+      }
       
-      const watcher = require('fs').watch(absolutePath, async (eventType: string) => {
-        if (eventType === 'change') {
-          envLog('info', `Config file changed: ${source.path}`)
-          
-          // Clear cache for this file
-          configCache.delete(source.path)
-          
-          // Reload configuration
-          try {
-            const newConfig = await loadConfiguration(sources)
-            callback(newConfig)
-          } catch (error) {
-            envLog('error', 'Failed to reload configuration:', error)
-          }
-        }
+      const newConfig = await loadConfiguration(sources)
+      const checksum = computeConfigChecksum(newConfig.config)
+      const previous = await lastChecksum
+      lastChecksum = Promise.resolve(checksum)
+      
+      if (closed) return
+      if (checksum === previous) {
+        envLog('info', 'Config sources changed, merged configuration is unchanged')
+        return
+      }
+      callback(newConfig)
+    } catch (error) {
+      envLog('error', 'Failed to reload configuration:', error)
+    } finally {
+      reloading = false
+      if (reloadAgain && !closed) {
+        reloadAgain = false
+        scheduleReload()
+      }
+    }
+  }
+  
+  const scheduleReload = debounce(reload, options.debounce ?? DEFAULT_WATCH_DEBOUNCE)
+  
+  // Only sources whose plugin supports watching
+  for (const source of watchedSources) {
+    const plugin = getConfigSourcePlugin(source.type)
+    if (!plugin?.watch) continue
+    
+    try {
+      const cleanup = plugin.watch(source, () => {
+        changedSources.add(source)
+        scheduleReload()
       })
       
-      watchers.push(() => watcher.close())
+      watchers.push(cleanup)
     } catch (error) {
-      envLog('warn', `Failed to watch config file: ${source.path}`, error)
+      envLog('warn', `Failed to watch config source: ${source.path || source.url || source.type}`, error)
     }
   }
   
   // Return cleanup function
   return () => {
+    closed = true
+    scheduleReload.cancel()
     watchers.forEach(cleanup => cleanup())
   }
 }
 
 /**
  * Clear configuration cache
+ *
+ * Without a pattern everything is cleared. A string is matched against cache
+ * keys with `*` as a wildcard, e.g. `config/*.json` or `https://*`.
  */
-export function clearConfigCache(key?: string): void {
-  if (key) {
-    configCache.delete(key)
-  } else {
-    configCache.clear()
-  }
-  envLog('info', key ? `Cleared cache for: ${key}` : 'Cleared all config cache')
+export async function clearConfigCache(pattern?: string | RegExp): Promise<string[]> {
+  const matches = toKeyMatcher(pattern)
+  const evicted = await evictCachedConfigs(matches)
+  
+  getRemoteConfigState()
+    .filter(({ url }) => matches(url))
+    .forEach(({ url }) => clearRemoteConfigCache(url))
+  
+  envLog('info', pattern ? `Cleared ${evicted.length} cached config(s) matching: ${pattern}` : 'Cleared all config cache')
+  return evicted
+}
+
+function toKeyMatcher(pattern?: string | RegExp): (key: string) => boolean {
+  if (pattern === undefined) return () => true
+  if (pattern instanceof RegExp) return key => pattern.test(key)
+  
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  const regex = new RegExp(`^${escaped.join('.*')}$`)
+  return key => regex.test(key)
 }
 
 /**
  * Get cache statistics
  */
 export function getCacheStats() {
-  const stats = {
-    size: configCache.size,
-    items: [] as Array<{
-      key: string
-      timestamp: Date
-      ttl: number
-      isValid: boolean
-      source: ConfigSource
-    }>
-  }
+  const entries = getCachedConfigEntries()
+  const { hits, misses } = getCacheCounters()
+  const { persistent, directory } = getConfigCacheOptions()
   
-  for (const [key, cached] of configCache.entries()) {
-    stats.items.push({
-      key,
+  return {
+    size: entries.length,
+    hits,
+    misses,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    persistent,
+    directory: persistent ? directory : undefined,
+    items: entries.map(cached => ({
+      key: cached.key,
       timestamp: new Date(cached.timestamp),
       ttl: cached.ttl,
-      isValid: isCacheValid(cached),
+      isValid: isCachedConfigValid(cached),
+      fingerprint: cached.fingerprint,
       source: cached.source,
-    })
+    })),
   }
-  
-  return stats
 }
\ No newline at end of file
@@ -3,18 +3,34 @@
  * Handles build-time and runtime configuration merging and management
  */
 
-import { ArchitectResumeConfig } from './schema'
+import { ArchitectResumeConfig, getSecretFieldPaths, getTemplateEscaping, validateConfig } from './schema'
 import { loadConfiguration, ConfigPresets, ConfigSource, LoadedConfig } from './loader'
-import { getRuntimeEnvironment, getEnvironmentDefaults } from './environment'
-import { createTemplateContext, processConfigurationTemplates } from './template'
+import { getRuntimeEnvironment, getEnvironmentDefaults, isServerSide } from './environment'
+import { createTemplateContext, resolveConfigurationTemplates, registerTemplateFunctions } from './template'
+import type { TemplateFunctionMap } from './template'
+import type { DeepPartial } from './define'
+import { explainPath, trackProvenance, ValueProvenance } from './provenance'
+import { redactSecrets } from './redact'
+import { getValueAtPath, parseConfigPath, parseJsonPointer, resolveConfigPath, toJsonPointer } from './paths'
+import type { ConfigPath, ConfigPathValue, JsonPointerPath } from './paths'
+import { applyJsonPatch, applyMergePatch, createJsonPatch, JsonPatch } from './patch'
+import { getSourceFiles } from './plugins'
 
 export interface ConfigManagerOptions {
   sources?: ConfigSource[]
   enableCache?: boolean
   enableTemplates?: boolean
+  // Fail on unresolved template variables and unknown functions; defaults to on in production
+  strictTemplates?: boolean
   enableValidation?: boolean
   customVariables?: Record<string, any>
+  // Registered for every template, e.g. { initials: value => ... }
+  templateFunctions?: TemplateFunctionMap
   hotReload?: boolean
+  // Record every change in an append-only log on the server; a string sets its path
+  auditLog?: boolean | string
+  // Recorded in the audit log for changes that do not name an actor
+  actor?: string
 }
 
 export interface ConfigUpdateOptions {
@@ -22,6 +38,9 @@ export interface ConfigUpdateOptions {
   processTemplates?: boolean
   validate?: boolean
   notify?: boolean
+  // Audit log metadata
+  actor?: string
+  source?: string
 }
 
 export type ConfigChangeListener = (
@@ -37,6 +56,42 @@ export interface ConfigChange {
   type: 'added' | 'modified' | 'removed'
 }
 
+/**
+ * Draft configuration handed to a transaction callback
+ */
+export interface ConfigTransaction {
+  // The draft, including changes made so far in this transaction
+  readonly config: ArchitectResumeConfig
+  get<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P>
+  get<T = any>(pointer: JsonPointerPath, defaultValue?: T): T
+  set<P extends ConfigPath>(path: P, value: ConfigPathValue<P>, options?: { merge?: boolean }): void
+  // Deep merges by default; with merge: false each given section replaces the current one
+  update(updates: DeepPartial<ArchitectResumeConfig>, options?: { merge?: boolean }): void
+  // JSON Patch (RFC 6902); the draft is unchanged if any operation fails
+  patch(operations: JsonPatch): void
+  // JSON Merge Patch (RFC 7396)
+  mergePatch(patch: Record<string, any>): void
+}
+
+export type ConfigTransactionOptions = Omit<ConfigUpdateOptions, 'merge'>
+
+/**
+ * Express configuration changes as a JSON Patch document
+ */
+export function changesToJsonPatch(changes: ConfigChange[]): JsonPatch {
+  return changes.map(change => {
+    const path = toJsonPointer(change.path)
+    switch (change.type) {
+      case 'added':
+        return { op: 'add', path, value: change.newValue }
+      case 'removed':
+        return { op: 'remove', path }
+      default:
+        return { op: 'replace', path, value: change.newValue }
+    }
+  })
+}
+
 /**
  * Configuration Manager Class
  */
@@ -46,16 +101,26 @@ export class ConfigurationManager {
   private _listeners: ConfigChangeListener[] = []
   private _watchCleanup: (() => void) | null = null
   private _options: Required<ConfigManagerOptions>
+  // Transactions run one at a time, in the order they were started
+  private _transactionQueue: Promise<unknown> = Promise.resolve()
+  // Set while a transaction callback runs; nested transactions would wait on themselves
+  private _inTransaction = false
   
   constructor(options: ConfigManagerOptions = {}) {
     this._options = {
       sources: options.sources || [],
       enableCache: options.enableCache ?? true,
       enableTemplates: options.enableTemplates ?? true,
+      strictTemplates: options.strictTemplates ?? getRuntimeEnvironment().isProduction,
       enableValidation: options.enableValidation ?? true,
       customVariables: options.customVariables || {},
+      templateFunctions: options.templateFunctions || {},
       hotReload: options.hotReload ?? false,
+      auditLog: options.auditLog ?? false,
+      actor: options.actor ?? '',
     }
+    
+    registerTemplateFunctions(this._options.templateFunctions)
   }
   
   /**
@@ -76,6 +141,7 @@ export class ConfigurationManager {
           runtime,
         },
         validateSchema: this._options.enableValidation,
+        strictTemplates: this._options.strictTemplates,
       })
     } else {
       // Use environment-specific presets
@@ -132,48 +198,180 @@ export class ConfigurationManager {
   
   /**
    * Get configuration value by path
+   *
+   * Dot paths are checked against the schema and typed by it; JSON Pointers are not.
    */
-  get<T = any>(path: string, defaultValue?: T): T {
-    const keys = path.split('.')
-    let current: any = this.config
-    
-    for (const key of keys) {
-      if (current && typeof current === 'object' && key in current) {
-        current = current[key]
-      } else {
-        return defaultValue as T
-      }
-    }
-    
-    return current as T
+  get<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P>
+  get<T = any>(pointer: JsonPointerPath, defaultValue?: T): T
+  get(path: string, defaultValue?: any): any {
+    return getValueAtPath(this.config, path, defaultValue)
+  }
+  
+  /**
+   * Explain which sources supplied the values at a path and what they overrode
+   *
+   * Objects give every value beneath them; an array item gives the array,
+   * which is tracked as a whole. Changes made through the manager are
+   * attributed to a `manager` source.
+   */
+  explain(path: string): ValueProvenance[] {
+    const keys = path.startsWith('/') ? parseJsonPointer(path) : resolveConfigPath(this.config, path)
+    return keys ? explainPath(this.loadedConfig.provenance, keys.join('.')) : []
+  }
+  
+  /**
+   * Paths of values resolved from secret references or held by secret fields
+   */
+  get secrets(): string[] {
+    // Include secret fields set since the configuration was loaded
+    return Array.from(new Set([
+      ...(this._loadedConfig?.secrets || []),
+      ...getSecretFieldPaths(this._config),
+    ]))
   }
   
   /**
    * Set configuration value by path
    */
-  async set(
-    path: string,
-    value: any,
+  async set<P extends ConfigPath>(
+    path: P,
+    value: ConfigPathValue<P>,
+    options: ConfigUpdateOptions = {}
+  ): Promise<void> {
+    const { merge = false, ...commitOptions } = options
+    await this.transaction(tx => tx.set(path, value, { merge }), { source: 'set', ...commitOptions })
+  }
+  
+  /**
+   * Update entire configuration
+   */
+  async updateConfig(
+    newConfig: Partial<ArchitectResumeConfig>,
     options: ConfigUpdateOptions = {}
   ): Promise<void> {
+    const { merge = true, ...commitOptions } = options
+    await this.transaction(tx => tx.update(newConfig, { merge }), { source: 'updateConfig', ...commitOptions })
+  }
+  
+  /**
+   * Apply several changes at once
+   *
+   * The callback edits a draft. Templates and validation run once when it
+   * returns; if the callback throws or validation fails nothing is applied.
+   * Listeners receive a single notification with all changes. Changes made
+   * through the manager while the callback runs, such as set() or
+   * updateConfig(), are rejected because they would wait for the transaction
+   * to finish; use `tx` instead.
+   */
+  transaction<T>(
+    fn: (tx: ConfigTransaction) => Promise<T> | T,
+    options: ConfigTransactionOptions = {}
+  ): Promise<T> {
+    if (this._inTransaction) {
+      return Promise.reject(new Error('Cannot change the configuration while a transaction callback runs; use its tx argument'))
+    }
+    
+    const run = this._transactionQueue.then(() => this.runTransaction(fn, options))
+    this._transactionQueue = run.catch(() => undefined)
+    return run
+  }
+  
+  /**
+   * Apply a JSON Patch (RFC 6902) document
+   */
+  async applyPatch(operations: JsonPatch, options: ConfigTransactionOptions = {}): Promise<void> {
+    await this.transaction(tx => tx.patch(operations), { source: 'applyPatch', ...options })
+  }
+  
+  /**
+   * Apply a JSON Merge Patch (RFC 7396) document
+   */
+  async applyMergePatch(patch: Record<string, any>, options: ConfigTransactionOptions = {}): Promise<void> {
+    await this.transaction(tx => tx.mergePatch(patch), { source: 'applyMergePatch', ...options })
+  }
+  
+  /**
+   * Restore the configuration recorded at an audit log revision
+   *
+   * Secret values are not in the log and are left as they are.
+   */
+  async rollback(revision: number, options: ConfigTransactionOptions = {}): Promise<void> {
+    const { getConfigRevision } = await import('./audit')
+    const target = await getConfigRevision(revision, await this.getAuditLogPath())
+    const patch = createJsonPatch(redactSecrets(this.config, this.secrets), target)
+    await this.applyPatch(patch, { source: `rollback:${revision}`, ...options })
+  }
+  
+  private async runTransaction<T>(
+    fn: (tx: ConfigTransaction) => Promise<T> | T,
+    options: ConfigTransactionOptions
+  ): Promise<T> {
     if (!this._config) {
       throw new Error('Configuration not initialized')
     }
     
-    const {
-      merge = false,
-      processTemplates = this._options.enableTemplates,
-      validate = this._options.enableValidation,
-      notify = true,
-    } = options
+    const base = this._config
+    let draft: any = JSON.parse(JSON.stringify(base))
+    let open = true
+    
+    const assertOpen = () => {
+      if (!open) throw new Error('Transaction has already finished')
+    }
+    
+    const tx: ConfigTransaction = {
+      get config() {
+        return draft
+      },
+      get: (path: string, defaultValue?: any) => getValueAtPath(draft, path, defaultValue),
+      set: (path: string, value: any, { merge = false }: { merge?: boolean } = {}) => {
+        assertOpen()
+        this.assignValue(draft, path, value, merge)
+      },
+      update: (updates, { merge = true } = {}) => {
+        assertOpen()
+        draft = merge ? this.mergeConfigs(draft, updates) : { ...draft, ...updates }
+      },
+      patch: operations => {
+        assertOpen()
+        draft = applyJsonPatch(draft, operations)
+      },
+      mergePatch: patch => {
+        assertOpen()
+        draft = applyMergePatch(draft, patch)
+      },
+    }
     
-    const oldConfig = JSON.parse(JSON.stringify(this._config))
-    const keys = path.split('.')
-    let current: any = this._config
+    let result: T
+    this._inTransaction = true
+    try {
+      result = await fn(tx)
+    } finally {
+      open = false
+      this._inTransaction = false
+    }
+    
+    // A reload replaced the configuration underneath the draft
+    if (this._config !== base) {
+      throw new Error('Configuration was reloaded during the transaction; no changes were applied')
+    }
     
-    // Navigate to the parent of the target key
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i]
+    await this.commit(draft, options)
+    return result
+  }
+  
+  /**
+   * Write a value into a draft by path; array items can be selected by id
+   */
+  private assignValue(draft: any, path: string, value: any, merge: boolean): void {
+    const segments = parseConfigPath(path)
+    let current: any = draft
+    
+    // Navigate to the parent of the target key, creating missing objects
+    for (let i = 0; i < segments.length - 1; i++) {
+      const [key] = resolveConfigPath(current, [segments[i]]) ?? []
+      if (key === undefined) {
+        throw new Error(`No array item matches ${path}`)
+      }
       if (!(key in current)) {
         current[key] = {}
       }
@@ -181,90 +379,125 @@ export class ConfigurationManager {
     }
     
     // Set the value
-    const finalKey = keys[keys.length - 1]
+    const [finalKey] = resolveConfigPath(current, segments.slice(-1)) ?? []
+    if (finalKey === undefined) {
+      throw new Error(`No array item matches ${path}`)
+    }
     if (merge && typeof current[finalKey] === 'object' && typeof value === 'object') {
       current[finalKey] = this.mergeConfigs(current[finalKey], value)
     } else {
       current[finalKey] = value
     }
-    
-    // Process templates if enabled
-    if (processTemplates) {
-      const context = createTemplateContext(this._config, this._options.customVariables)
-      this._config = processConfigurationTemplates(this._config, context.custom)
-    }
-    
-    // Validate if enabled
-    if (validate) {
-      const { validateConfig } = await import('./schema')
-      const validation = validateConfig(this._config)
-      if (!validation.success) {
-        // Revert changes on validation failure
-        this._config = oldConfig
-        throw new Error(`Configuration validation failed: ${validation.error?.issues[0]?.message}`)
-      }
-      this._config = validation.data!
-    }
-    
-    // Notify listeners
-    if (notify) {
-      const changes = this.detectChanges(oldConfig, this._config)
-      this.notifyListeners(this._config, oldConfig, changes)
-    }
+  }
+  
+  private async getAuditLogPath(): Promise<string> {
+    const { AUDIT_LOG_PATH } = await import('./audit')
+    return typeof this._options.auditLog === 'string' ? this._options.auditLog : AUDIT_LOG_PATH
   }
   
   /**
-   * Update entire configuration
+   * Append a change to the audit log, without secret values; the log keeps
+   * copies of the config files so they can be restored
    */
-  async updateConfig(
-    newConfig: Partial<ArchitectResumeConfig>,
-    options: ConfigUpdateOptions = {}
+  private async recordAudit(
+    oldConfig: ArchitectResumeConfig,
+    newConfig: ArchitectResumeConfig,
+    source: string,
+    actor?: string
   ): Promise<void> {
-    if (!this._config) {
-      throw new Error('Configuration not initialized')
-    }
-    
+    if (!this._options.auditLog || !isServerSide()) return
+    
+    const { recordConfigChange } = await import('./audit')
+    await recordConfigChange({
+      oldConfig: redactSecrets(oldConfig, this.secrets),
+      newConfig: redactSecrets(newConfig, this.secrets),
+      actor: actor || this._options.actor,
+      source,
+      files: await getSourceFiles(this._loadedConfig?.sources ?? []),
+    }, await this.getAuditLogPath())
+  }
+  
+  /**
+   * Template, validate and apply a draft, then notify listeners once
+   */
+  private async commit(draft: ArchitectResumeConfig, options: ConfigTransactionOptions): Promise<void> {
     const {
-      merge = true,
       processTemplates = this._options.enableTemplates,
       validate = this._options.enableValidation,
       notify = true,
+      actor,
+      source = 'transaction',
     } = options
     
-    const oldConfig = JSON.parse(JSON.stringify(this._config))
-    
-    // Update configuration
-    if (merge) {
-      this._config = this.mergeConfigs(this._config, newConfig)
-    } else {
-      this._config = { ...this._config, ...newConfig }
-    }
+    const oldConfig = this._config!
+    let newConfig = draft
     
     // Process templates if enabled
     if (processTemplates) {
-      const context = createTemplateContext(this._config, this._options.customVariables)
-      this._config = processConfigurationTemplates(this._config, context.custom)
+      const context = createTemplateContext(newConfig, this._options.customVariables)
+      const resolution = resolveConfigurationTemplates(newConfig, context.custom, 'BASIC', {
+        strict: this._options.strictTemplates,
+        escaping: getTemplateEscaping,
+      })
+      if (this._options.strictTemplates && resolution.errors.length > 0) {
+        throw new Error(`Template processing failed: ${resolution.errors.join('; ')}`)
+      }
+      newConfig = resolution.config
     }
     
-    // Validate if enabled
+    // Validate if enabled; the current configuration is untouched on failure
     if (validate) {
-      const { validateConfig } = await import('./schema')
-      const validation = validateConfig(this._config)
+      const validation = validateConfig(newConfig)
       if (!validation.success) {
-        // Revert changes on validation failure
-        this._config = oldConfig
         throw new Error(`Configuration validation failed: ${validation.error?.issues[0]?.message}`)
       }
-      this._config = validation.data!
+      newConfig = validation.data!
     }
     
+    // Written before applying, so a change that cannot be logged is not made
+    await this.recordAudit(oldConfig, newConfig, source, actor)
+    
+    this._config = newConfig
+    
+    const changes = this.detectChanges(oldConfig, newConfig)
+    this.updateProvenance(changes, {
+      type: 'manager',
+      path: source,
+      ...(actor && { options: { actor } }),
+    })
+    
     // Notify listeners
     if (notify) {
-      const changes = this.detectChanges(oldConfig, this._config)
-      this.notifyListeners(this._config, oldConfig, changes)
+      this.notifyListeners(newConfig, oldConfig, changes)
     }
   }
   
+  /**
+   * Attribute committed changes to the change that made them
+   */
+  private updateProvenance(changes: ConfigChange[], source: ConfigSource): void {
+    const provenance = this._loadedConfig?.provenance
+    if (!provenance) return
+    
+    const changed: Record<string, any> = {}
+    for (const change of changes) {
+      if (change.type === 'removed') {
+        const path = change.path.join('.')
+        for (const key of Object.keys(provenance)) {
+          if (key === path || key.startsWith(`${path}.`)) delete provenance[key]
+        }
+      } else {
+        let parent = changed
+        for (const key of change.path.slice(0, -1)) {
+          parent = parent[key] = parent[key] ?? {}
+        }
+        parent[change.path[change.path.length - 1]] = change.newValue
+      }
+    }
+    
+    trackProvenance(provenance, source, changed)
+  }
+  
   /**
    * Reload configuration from sources
    */
@@ -316,8 +549,13 @@ export class ConfigurationManager {
         if (oldConfig) {
           const changes = this.detectChanges(oldConfig, this._config)
           this.notifyListeners(this._config, oldConfig, changes)
+          
+          this.recordAudit(oldConfig, this._config, 'reload').catch(error => {
+            console.error('Failed to record configuration reload in the audit log:', error)
+          })
         }
-      }
+      },
+      { initial: this._loadedConfig ?? undefined }
     )
   }
   
@@ -361,9 +599,24 @@ export class ConfigurationManager {
   }
   
   /**
-   * Detect changes between old and new configuration
+   * Detect changes between old and new configuration, optionally as a JSON Patch document
    */
-  private detectChanges(
+  detectChanges(oldConfig: ArchitectResumeConfig, newConfig: ArchitectResumeConfig): ConfigChange[]
+  detectChanges(
+    oldConfig: ArchitectResumeConfig,
+    newConfig: ArchitectResumeConfig,
+    options: { format: 'patch' }
+  ): JsonPatch
+  detectChanges(
+    oldConfig: ArchitectResumeConfig,
+    newConfig: ArchitectResumeConfig,
+    options?: { format?: 'changes' | 'patch' }
+  ): ConfigChange[] | JsonPatch {
+    const changes = this.collectChanges(oldConfig, newConfig)
+    return options?.format === 'patch' ? changesToJsonPatch(changes) : changes
+  }
+  
+  private collectChanges(
     oldConfig: ArchitectResumeConfig,
     newConfig: ArchitectResumeConfig,
     path: string[] = []
@@ -388,8 +641,8 @@ export class ConfigurationManager {
                  oldValue !== null && newValue !== null && 
                  !Array.isArray(oldValue) && !Array.isArray(newValue)) {
         // Recursively check nested objects
-        changes.push(...this.detectChanges(oldValue, newValue, currentPath))
-      } else if (oldValue !== newValue) {
+        changes.push(...this.collectChanges(oldValue, newValue, currentPath))
+      } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
         // Property was modified
         changes.push({
           path: currentPath,
@@ -453,7 +706,7 @@ export class ConfigurationManager {
     }
     
     return {
-      config: JSON.parse(JSON.stringify(this._config)),
+      config: redactSecrets(this._config!, this.secrets),
       metadata: {
         loadTime: this._loadedConfig.loadTime,
         sources: this._loadedConfig.sources,
@@ -526,6 +779,21 @@ export const ConfigUtils = {
     return loaded.config
   },
   
+  /**
+   * Get build-time configuration that is safe to pass to client components
+   */
+  async getClientConfig(options?: ConfigManagerOptions): Promise<ArchitectResumeConfig> {
+    const manager = new ConfigurationManager({
+      enableCache: false,
+      enableTemplates: true,
+      enableValidation: true,
+      ...options,
+    })
+    
+    const loaded = await manager.initialize()
+    return redactSecrets(loaded.config, loaded.secrets)
+  },
+  
   /**
    * Get runtime configuration
    * This runs in the browser or server during runtime
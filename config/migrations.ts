@@ -0,0 +1,139 @@
+/**
+ * Configuration Schema Migrations
+ * Upgrades older configuration documents to the current schema version
+ */
+
+import { CURRENT_SCHEMA_VERSION } from './schema'
+import { fromTemplateConfig, isTemplateShape } from './legacy'
+
+/**
+ * Version assigned to unversioned documents in the original template shape
+ * (template.config.json and examples/*.json)
+ */
+export const LEGACY_SCHEMA_VERSION = 0
+
+export interface MigrationContext {
+  warn: (message: string) => void
+}
+
+export interface ConfigMigration {
+  from: number
+  to: number
+  description: string
+  migrate: (document: any, context: MigrationContext) => any
+}
+
+export interface MigrationResult {
+  config: any
+  fromVersion: number
+  toVersion: number
+  applied: string[]
+  warnings: string[]
+}
+
+// Registered migrations keyed by the version they upgrade from
+const migrationRegistry = new Map<number, ConfigMigration>()
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+/**
+ * Register a migration step
+ */
+export function registerMigration(migration: ConfigMigration): void {
+  if (migration.to !== migration.from + 1) {
+    throw new Error(`Migration must upgrade by one version: ${migration.from} -> ${migration.to}`)
+  }
+  if (migrationRegistry.has(migration.from)) {
+    throw new Error(`A migration from schema version ${migration.from} is already registered`)
+  }
+  migrationRegistry.set(migration.from, migration)
+}
+
+/**
+ * Get all registered migrations in version order
+ */
+export function getMigrations(): ConfigMigration[] {
+  return [...migrationRegistry.values()].sort((a, b) => a.from - b.from)
+}
+
+/**
+ * Detect the schema version of a configuration document
+ *
+ * Documents without an explicit `schemaVersion` are treated as current unless
+ * they use the legacy template shape; partial overlays stay untouched.
+ */
+export function detectSchemaVersion(document: any): number {
+  if (!isObject(document)) return CURRENT_SCHEMA_VERSION
+  
+  if (typeof document.schemaVersion === 'number') {
+    return document.schemaVersion
+  }
+  
+  return isTemplateShape(document) ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Check whether a document needs migrating
+ */
+export function needsMigration(document: any): boolean {
+  return detectSchemaVersion(document) < CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Upgrade a configuration document step by step to the current schema version
+ */
+export function migrateConfig(document: any): MigrationResult {
+  const fromVersion = detectSchemaVersion(document)
+  const warnings: string[] = []
+  const applied: string[] = []
+  
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Config schema version ${fromVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`
+    )
+  }
+  
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return { config: document, fromVersion, toVersion: fromVersion, applied, warnings }
+  }
+  
+  let config = JSON.parse(JSON.stringify(document))
+  let version = fromVersion
+  
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = migrationRegistry.get(version)
+    if (!migration) {
+      throw new Error(`No migration registered from schema version ${version}`)
+    }
+    
+    config = {
+      schemaVersion: migration.to,
+      ...migration.migrate(config, {
+        warn: message => warnings.push(`[v${migration.from}->v${migration.to}] ${message}`),
+      }),
+    }
+    config.schemaVersion = migration.to
+    applied.push(migration.description)
+    version = migration.to
+  }
+  
+  return { config, fromVersion, toVersion: version, applied, warnings }
+}
+
+/**
+ * v0 -> v1: template shape to ArchitectResumeConfig
+ */
+registerMigration({
+  from: 0,
+  to: 1,
+  description: 'Convert legacy template shape to ArchitectResumeConfig',
+  migrate(document, context) {
+    const { value, unmapped } = fromTemplateConfig(document)
+    unmapped.forEach(path => {
+      context.warn(`${path} has no equivalent in the current schema and was dropped`)
+    })
+    return value
+  },
+})
\ No newline at end of file
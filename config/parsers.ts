@@ -0,0 +1,123 @@
+/**
+ * Configuration File Parsers
+ * Server-only JSON, YAML and TOML parsing with source-located errors
+ */
+
+import path from 'path'
+import { parseDocument, stringify as stringifyYaml } from 'yaml'
+import { parse as parseToml, stringify as stringifyToml, TomlError } from 'smol-toml'
+import { ConfigFileFormat, ConfigParseError, getConfigFileFormat } from './formats'
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+function offsetToLineColumn(content: string, offset: number): { line: number; column: number } {
+  const preceding = content.slice(0, offset).split('\n')
+  return {
+    line: preceding.length,
+    column: preceding[preceding.length - 1].length + 1,
+  }
+}
+
+/**
+ * Locate a JSON syntax error with the YAML parser when JSON.parse gives no position
+ */
+function locateWithYAML(content: string): { line: number; column: number } {
+  const [error] = parseDocument(content).errors
+  const [start] = error?.linePos || [{ line: 1, col: 1 }]
+  return { line: start.line, column: start.col }
+}
+
+function parseJSON(content: string, filePath: string): any {
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const position = message.match(/at position (\d+)/)
+    const { line, column } = position
+      ? offsetToLineColumn(content, parseInt(position[1]))
+      : locateWithYAML(content)
+    const reason = message
+      .replace(/\s*\(line \d+ column \d+\)$/, '')
+      .replace(/, (\.\.\.)?"[\s\S]*" is not valid JSON$/, '')
+    throw new ConfigParseError(filePath, line, column, reason)
+  }
+}
+
+function parseYAML(content: string, filePath: string): any {
+  const document = parseDocument(content)
+  
+  if (document.errors.length > 0) {
+    const [error] = document.errors
+    const [start] = error.linePos || [{ line: 1, col: 1 }]
+    const reason = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')
+    throw new ConfigParseError(filePath, start.line, start.col, reason)
+  }
+  
+  return document.toJS()
+}
+
+function parseTOML(content: string, filePath: string): any {
+  try {
+    // Round-trip through JSON to get plain objects and ISO date strings
+    return JSON.parse(JSON.stringify(parseToml(content)))
+  } catch (error) {
+    if (error instanceof TomlError) {
+      throw new ConfigParseError(filePath, error.line, error.column, error.message.split('\n')[0])
+    }
+    throw error
+  }
+}
+
+/**
+ * Parse configuration file content according to its format
+ */
+export function parseConfigContent(
+  content: string,
+  format: ConfigFileFormat,
+  filePath: string
+): any {
+  switch (format) {
+    case 'json':
+      return parseJSON(content, filePath)
+    
+    case 'yaml':
+      return parseYAML(content, filePath)
+    
+    case 'toml':
+      return parseTOML(content, filePath)
+    
+    default:
+      throw new Error(`Unsupported config file format: ${format}`)
+  }
+}
+
+/**
+ * Parse a configuration file's content, choosing the parser from its extension
+ */
+export function parseConfigFile(content: string, filePath: string): any {
+  const format = getConfigFileFormat(filePath)
+  if (!format) {
+    throw new Error(`Unsupported config file format: ${path.extname(filePath)}`)
+  }
+  return parseConfigContent(content, format, filePath)
+}
+
+/**
+ * Serialize configuration in the format implied by a file path
+ */
+export function stringifyConfigFile(data: any, filePath: string): string {
+  switch (getConfigFileFormat(filePath)) {
+    case 'json':
+      return JSON.stringify(data, null, 2)
+    
+    case 'yaml':
+      return stringifyYaml(data)
+    
+    case 'toml':
+      return stringifyToml(data)
+    
+    default:
+      throw new Error(`Unsupported config file format: ${path.extname(filePath)}`)
+  }
+}
\ No newline at end of file
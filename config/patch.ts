@@ -0,0 +1,261 @@
+/**
+ * Configuration Patches
+ * JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396) for configuration documents
+ */
+
+import { parseJsonPointer, toJsonPointer } from './paths'
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: any }
+
+export type JsonPatch = JsonPatchOperation[]
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Structural equality for JSON values
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]))
+  }
+  return false
+}
+
+/**
+ * Resolve an array index token; "-" is only valid where a value is added
+ */
+function toIndex(array: any[], token: string, pointer: string, allowEnd: boolean): number {
+  if (token === '-' && allowEnd) return array.length
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}" in ${pointer}`)
+  }
+  const index = parseInt(token)
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index ${index} is out of bounds in ${pointer}`)
+  }
+  return index
+}
+
+/**
+ * Find the container of the value a pointer refers to
+ */
+function getParent(document: any, pointer: string): { parent: any; key: string } {
+  const keys = parseJsonPointer(pointer)
+  const key = keys.pop()!
+  let parent = document
+  
+  for (const token of keys) {
+    const next = Array.isArray(parent) ? parent[toIndex(parent, token, pointer, false)] : parent?.[token]
+    if (next === undefined || next === null || typeof next !== 'object') {
+      throw new Error(`Path ${pointer} does not exist`)
+    }
+    parent = next
+  }
+  
+  return { parent, key }
+}
+
+function getValue(document: any, pointer: string): any {
+  if (pointer === '') return document
+  const { parent, key } = getParent(document, pointer)
+  const value = Array.isArray(parent) ? parent[toIndex(parent, key, pointer, false)] : parent[key]
+  if (value === undefined || (!Array.isArray(parent) && !(key in parent))) {
+    throw new Error(`Path ${pointer} does not exist`)
+  }
+  return value
+}
+
+function addValue(document: any, pointer: string, value: any): any {
+  if (pointer === '') return value
+  const { parent, key } = getParent(document, pointer)
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, key, pointer, true), 0, value)
+  } else {
+    parent[key] = value
+  }
+  return document
+}
+
+function removeValue(document: any, pointer: string): any {
+  const value = getValue(document, pointer)
+  const { parent, key } = getParent(document, pointer)
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, key, pointer, false), 1)
+  } else {
+    delete parent[key]
+  }
+  return value
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902) and return the patched copy
+ *
+ * Operations are applied in order to a copy; if one fails, an error naming
+ * it is thrown and the original document is unchanged.
+ */
+export function applyJsonPatch<T = any>(document: T, patch: JsonPatch): T {
+  let result: any = clone(document)
+  
+  patch.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, operation.path, clone(operation.value))
+          break
+        
+        case 'remove':
+          if (operation.path === '') throw new Error('Cannot remove the whole document')
+          removeValue(result, operation.path)
+          break
+        
+        case 'replace':
+          if (operation.path === '') {
+            result = clone(operation.value)
+          } else {
+            removeValue(result, operation.path)
+            result = addValue(result, operation.path, clone(operation.value))
+          }
+          break
+        
+        case 'move': {
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new Error(`Cannot move ${operation.from} into itself`)
+          }
+          const value = removeValue(result, operation.from)
+          result = addValue(result, operation.path, value)
+          break
+        }
+        
+        case 'copy':
+          result = addValue(result, operation.path, clone(getValue(result, operation.from)))
+          break
+        
+        case 'test':
+          if (!isEqual(getValue(result, operation.path), operation.value)) {
+            throw new Error(`Test failed: value at ${operation.path} does not match`)
+          }
+          break
+        
+        default:
+          throw new Error(`Unknown operation "${(operation as any).op}"`)
+      }
+    } catch (error) {
+      throw new Error(`JSON Patch operation ${index} (${operation.op} ${operation.path}) failed: ${error instanceof Error ? error.message : error}`)
+    }
+  })
+  
+  return result
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396): objects merge, null removes, everything else replaces
+ */
+export function applyMergePatch<T = any>(document: T, patch: any): T {
+  if (!isObject(patch)) {
+    return clone(patch)
+  }
+  
+  const result: Record<string, any> = isObject(document) ? clone(document) : {}
+  
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  }
+  
+  return result as T
+}
+
+/**
+ * Create a JSON Patch that turns one document into another
+ *
+ * Objects and arrays are compared member by member, so unchanged siblings
+ * are left out of the patch.
+ */
+export function createJsonPatch(oldDocument: any, newDocument: any, path: Array<string | number> = []): JsonPatch {
+  if (isEqual(oldDocument, newDocument)) return []
+  
+  if (isObject(oldDocument) && isObject(newDocument)) {
+    const patch: JsonPatch = []
+    
+    for (const key of Object.keys(oldDocument)) {
+      if (!(key in newDocument)) {
+        patch.push({ op: 'remove', path: toJsonPointer([...path, key]) })
+      }
+    }
+    
+    for (const [key, value] of Object.entries(newDocument)) {
+      if (!(key in oldDocument)) {
+        patch.push({ op: 'add', path: toJsonPointer([...path, key]), value: clone(value) })
+      } else {
+        patch.push(...createJsonPatch(oldDocument[key], value, [...path, key]))
+      }
+    }
+    
+    return patch
+  }
+  
+  if (Array.isArray(oldDocument) && Array.isArray(newDocument)) {
+    const patch: JsonPatch = []
+    const common = Math.min(oldDocument.length, newDocument.length)
+    
+    for (let index = 0; index < common; index++) {
+      patch.push(...createJsonPatch(oldDocument[index], newDocument[index], [...path, index]))
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let index = oldDocument.length - 1; index >= common; index--) {
+      patch.push({ op: 'remove', path: toJsonPointer([...path, index]) })
+    }
+    for (let index = common; index < newDocument.length; index++) {
+      patch.push({ op: 'add', path: toJsonPointer([...path, index]), value: clone(newDocument[index]) })
+    }
+    
+    return patch
+  }
+  
+  return [{ op: 'replace', path: toJsonPointer(path), value: clone(newDocument) }]
+}
+
+/**
+ * Create a JSON Merge Patch that turns one document into another
+ */
+export function createMergePatch(oldDocument: any, newDocument: any): any {
+  if (!isObject(oldDocument) || !isObject(newDocument)) {
+    return clone(newDocument)
+  }
+  
+  const patch: Record<string, any> = {}
+  
+  for (const key of Object.keys(oldDocument)) {
+    if (!(key in newDocument)) patch[key] = null
+  }
+  
+  for (const [key, value] of Object.entries(newDocument)) {
+    if (!(key in oldDocument)) {
+      patch[key] = clone(value)
+    } else if (!isEqual(oldDocument[key], value)) {
+      patch[key] = createMergePatch(oldDocument[key], value)
+    }
+  }
+  
+  return patch
+}
\ No newline at end of file
@@ -0,0 +1,211 @@
+/**
+ * Configuration Paths
+ * Dot paths with array item selectors, and their JSON Pointer equivalents
+ */
+
+import type { ArchitectResumeConfig } from './schema'
+
+/**
+ * One step of a path: an object key, an array index, or an array item
+ * selected by a field value, e.g. `projects[id=eco-villa]`
+ */
+export type PathSegment = string | number | { field: string; value: string }
+
+// Paths stop being expanded below this depth; the configuration is far shallower
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7]
+
+type Leaf = string | number | boolean | bigint | symbol | null | undefined | Date
+
+/**
+ * Ways to address one array item: by index, or by id when items have one
+ */
+type ItemSelector<Item> =
+  | `.${number}`
+  | `[${number}]`
+  | (Item extends { id: string } ? `[id=${string}]` : never)
+
+/**
+ * Every path below a value, each starting with "." or "["
+ */
+type PathSuffix<T, Depth extends number> = [Depth] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer Item)[]
+      ? ItemSelector<Item> | `${ItemSelector<Item>}${PathSuffix<NonNullable<Item>, PathDepth[Depth]>}`
+      : {
+          [K in keyof T & string]-?: `.${K}` | `.${K}${PathSuffix<NonNullable<T[K]>, PathDepth[Depth]>}`
+        }[keyof T & string]
+
+type StripDot<S> = S extends `.${infer Path}` ? Path : never
+
+/**
+ * Every valid dot path into a configuration, e.g. `seo.twitterCard` or
+ * `portfolio.projects[id=eco-villa].title`
+ */
+export type ConfigPath<T = ArchitectResumeConfig> = StripDot<PathSuffix<T, 8>>
+
+type ChildValue<T, Key extends string> = NonNullable<T> extends readonly (infer Item)[]
+  ? Key extends `${number}` ? Item : never
+  : Key extends keyof NonNullable<T> ? NonNullable<T>[Key] : never
+
+type DotStep<T, Path extends string> = Path extends `${infer Key}.${infer Rest}`
+  ? ValueAt<ChildValue<T, Key>, Rest>
+  : ChildValue<T, Path>
+
+type ValueAt<T, Path extends string> = Path extends ''
+  ? T
+  : Path extends `.${infer Rest}`
+    ? ValueAt<T, Rest>
+    : Path extends `[${string}]${infer Rest}`
+      ? NonNullable<T> extends readonly (infer Item)[] ? ValueAt<Item, Rest> : never
+      : Path extends `${infer Key}[${infer Selector}]${infer Rest}`
+        ? Key extends `${string}.${string}`
+          ? DotStep<T, Path>
+          : ValueAt<ChildValue<T, Key>, `[${Selector}]${Rest}`>
+        : DotStep<T, Path>
+
+/**
+ * Type of the value at a config path, e.g. `'summary' | 'summary_large_image'`
+ * for `seo.twitterCard`
+ */
+export type ConfigPathValue<Path extends string, T = ArchitectResumeConfig> = ValueAt<T, Path>
+
+/**
+ * A JSON Pointer such as `/portfolio/projects/0`; not checked against the schema
+ */
+export type JsonPointerPath = `/${string}`
+
+function isSelector(segment: PathSegment): segment is { field: string; value: string } {
+  return typeof segment === 'object'
+}
+
+/**
+ * Parse a dot path such as `portfolio.projects[id=eco-villa].title` or `experience.items.0`
+ *
+ * Selector values may be quoted to contain dots or brackets: `[id="v1.2"]`.
+ */
+export function parseConfigPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = []
+  let key = ''
+  let i = 0
+  
+  const pushKey = () => {
+    if (key) segments.push(/^\d+$/.test(key) ? parseInt(key) : key)
+    key = ''
+  }
+  
+  while (i < path.length) {
+    const char = path[i]
+    
+    if (char === '.') {
+      pushKey()
+      i++
+    } else if (char === '[') {
+      pushKey()
+      const end = findSelectorEnd(path, i)
+      const body = path.slice(i + 1, end).trim()
+      const separator = body.indexOf('=')
+      
+      if (separator === -1) {
+        if (!/^\d+$/.test(body)) {
+          throw new Error(`Invalid path "${path}": expected [index] or [field=value]`)
+        }
+        segments.push(parseInt(body))
+      } else {
+        const value = body.slice(separator + 1).trim()
+        segments.push({
+          field: body.slice(0, separator).trim(),
+          value: /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value,
+        })
+      }
+      i = end + 1
+    } else {
+      key += char
+      i++
+    }
+  }
+  
+  pushKey()
+  return segments
+}
+
+function findSelectorEnd(path: string, start: number): number {
+  let quote: string | null = null
+  
+  for (let i = start + 1; i < path.length; i++) {
+    const char = path[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === ']') {
+      return i
+    }
+  }
+  
+  throw new Error(`Invalid path "${path}": missing "]"`)
+}
+
+/**
+ * Resolve selectors against a document, giving plain keys and indexes
+ *
+ * Returns undefined when a selector matches no item.
+ */
+export function resolveConfigPath(document: any, path: string | PathSegment[]): Array<string | number> | undefined {
+  const segments = typeof path === 'string' ? parseConfigPath(path) : path
+  const resolved: Array<string | number> = []
+  let current = document
+  
+  for (const segment of segments) {
+    if (isSelector(segment)) {
+      if (!Array.isArray(current)) return undefined
+      const index = current.findIndex(item => item && String(item[segment.field]) === segment.value)
+      if (index === -1) return undefined
+      resolved.push(index)
+      current = current[index]
+    } else {
+      resolved.push(segment)
+      current = current?.[segment]
+    }
+  }
+  
+  return resolved
+}
+
+/**
+ * Read a value by dot path or JSON Pointer
+ */
+export function getValueAtPath(document: any, path: string, defaultValue?: any): any {
+  const keys = path.startsWith('/') ? parseJsonPointer(path) : resolveConfigPath(document, path)
+  if (!keys) return defaultValue
+  
+  let current = document
+  for (const key of keys) {
+    if (current && typeof current === 'object' && key in current) {
+      current = current[key]
+    } else {
+      return defaultValue
+    }
+  }
+  
+  return current
+}
+
+/**
+ * Format keys as a JSON Pointer (RFC 6901)
+ */
+export function toJsonPointer(keys: Array<string | number>): string {
+  return keys.map(key => `/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into keys
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must start with "/"`)
+  }
+  return pointer.slice(1).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * Configuration Source Plugins
+ * Registry for the loaders behind each ConfigSource type
+ */
+
+import type { ConfigSource } from './loader'
+import { registerTemplateFunctions } from './template'
+import type { TemplateFunctionMap } from './template'
+
+export interface SourceLoadContext {
+  // Report a problem that did not stop the source from loading; it ends up in LoadedConfig.warnings
+  warn: (message: string) => void
+}
+
+export interface ConfigSourcePlugin {
+  type: string
+  // Priority for sources of this type that do not set one
+  priority?: number
+  load: (source: ConfigSource, context: SourceLoadContext) => Promise<any> | any
+  // Call onChange whenever the source's data may have changed; returns a cleanup function
+  watch?: (source: ConfigSource, onChange: () => void) => () => void
+  cacheKey?: (source: ConfigSource) => string
+  // Files the source reads; cached data expires as soon as one of them changes
+  files?: (source: ConfigSource) => string[] | Promise<string[]>
+  // Whether cached data may be kept on disk; false when the data depends on more than those files
+  persistent?: (source: ConfigSource) => boolean
+  // Template functions registered along with the plugin
+  templateFunctions?: TemplateFunctionMap
+}
+
+const plugins = new Map<string, ConfigSourcePlugin>()
+
+/**
+ * Register a source plugin, replacing any plugin for the same type
+ */
+export function registerConfigSourcePlugin(plugin: ConfigSourcePlugin): void {
+  plugins.set(plugin.type, plugin)
+  if (plugin.templateFunctions) {
+    registerTemplateFunctions(plugin.templateFunctions)
+  }
+}
+
+/**
+ * Remove the source plugin for a type
+ */
+export function unregisterConfigSourcePlugin(type: string): boolean {
+  return plugins.delete(type)
+}
+
+/**
+ * Get the source plugin for a type
+ */
+export function getConfigSourcePlugin(type: string): ConfigSourcePlugin | undefined {
+  return plugins.get(type)
+}
+
+/**
+ * Get all registered source plugins
+ */
+export function getConfigSourcePlugins(): ConfigSourcePlugin[] {
+  return Array.from(plugins.values())
+}
+
+/**
+ * Cache key for a source: the plugin's own key, or its path, URL or type
+ */
+export function getSourceCacheKey(source: ConfigSource): string {
+  const plugin = plugins.get(source.type)
+  return plugin?.cacheKey?.(source) ?? (source.path || source.url || source.type)
+}
+
+/**
+ * Files read by a set of sources, for the plugins that list them
+ */
+export async function getSourceFiles(sources: ConfigSource[]): Promise<string[]> {
+  const files = await Promise.all(sources.map(source => plugins.get(source.type)?.files?.(source) ?? []))
+  return Array.from(new Set(files.flat()))
+}
+
+/**
+ * Priority for a source, falling back to its plugin's default
+ */
+export function getSourcePriority(source: ConfigSource): number {
+  return source.priority ?? plugins.get(source.type)?.priority ?? 0
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Configuration Provenance
+ * Tracks which source supplied each merged configuration value
+ */
+
+import type { ConfigSource } from './loader'
+import { isSecretReference } from './secrets'
+
+export interface OverriddenValue {
+  source: ConfigSource
+  value: any
+}
+
+export interface ValueProvenance {
+  path: string
+  source: ConfigSource
+  value: any
+  overridden: OverriddenValue[]
+}
+
+/**
+ * Provenance for every leaf path of a merged configuration, keyed by dot path
+ */
+export type ConfigProvenance = Record<string, ValueProvenance>
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+/**
+ * Flatten a configuration into leaf paths; arrays are leaves because merging replaces them
+ */
+function flattenLeaves(obj: any, path: string[] = [], leaves: Array<[string, any]> = []) {
+  for (const [key, value] of Object.entries(obj)) {
+    const currentPath = [...path, key]
+    // Secret references are leaves so their resolved values are never tracked
+    if (isObject(value) && Object.keys(value).length > 0 && !isSecretReference(value)) {
+      flattenLeaves(value, currentPath, leaves)
+    } else {
+      leaves.push([currentPath.join('.'), value])
+    }
+  }
+  return leaves
+}
+
+function isRelatedPath(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+}
+
+/**
+ * Record the values a source contributes, in the same order sources are merged
+ */
+export function trackProvenance(
+  provenance: ConfigProvenance,
+  source: ConfigSource,
+  config: any
+): ConfigProvenance {
+  if (!isObject(config)) return provenance
+  
+  for (const [leafPath, value] of flattenLeaves(config)) {
+    const overridden: OverriddenValue[] = []
+    
+    // A leaf replaces any earlier value at, above or beneath its path
+    for (const existingPath of Object.keys(provenance)) {
+      if (isRelatedPath(existingPath, leafPath)) {
+        const existing = provenance[existingPath]
+        overridden.push(...existing.overridden, { source: existing.source, value: existing.value })
+        delete provenance[existingPath]
+      }
+    }
+    
+    provenance[leafPath] = { path: leafPath, source, value, overridden }
+  }
+  
+  return provenance
+}
+
+/**
+ * Get provenance entries for a path: the leaf itself, every leaf beneath it,
+ * or the nearest ancestor leaf (e.g. the array containing an item)
+ */
+export function explainPath(provenance: ConfigProvenance, path: string): ValueProvenance[] {
+  if (provenance[path]) return [provenance[path]]
+  
+  const nested = Object.values(provenance).filter(entry => entry.path.startsWith(`${path}.`))
+  if (nested.length > 0) return nested
+  
+  const ancestor = Object.values(provenance)
+    .filter(entry => path.startsWith(`${entry.path}.`))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+  
+  return ancestor ? [ancestor] : []
+}
+
+/**
+ * Describe a configuration source for display
+ */
+export function describeSource(source: ConfigSource): string {
+  const location = source.path || source.url
+  const priority = source.priority !== undefined ? ` (priority ${source.priority})` : ''
+  return `${source.type}${location ? ` ${location}` : ''}${priority}`
+}
\ No newline at end of file
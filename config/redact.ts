@@ -0,0 +1,27 @@
+/**
+ * Secret Redaction
+ * Strips secret values from configuration; safe to import from client code
+ */
+
+function removePath(obj: any, path: string): void {
+  const keys = path.split('.')
+  const lastKey = keys.pop()!
+  const target = keys.reduce((current, key) => current?.[key], obj)
+  
+  // Array items keep their position so later paths stay valid
+  if (target === undefined || target === null) return
+  if (Array.isArray(target)) {
+    target[Number(lastKey)] = undefined
+  } else {
+    delete target[lastKey]
+  }
+}
+
+/**
+ * Copy a configuration without its secret values
+ */
+export function redactSecrets<T>(config: T, secrets: string[]): T {
+  const redacted = JSON.parse(JSON.stringify(config))
+  secrets.forEach(secretPath => removePath(redacted, secretPath))
+  return redacted
+}
\ No newline at end of file
@@ -0,0 +1,318 @@
+/**
+ * Remote Configuration Source
+ * Fetches configuration over HTTP with conditional requests, retries and stale fallbacks
+ */
+
+import crypto from 'crypto'
+import { getConfigFileFormat, ConfigFileFormat, ConfigParseError } from './formats'
+import { envLog } from './environment'
+import { isSecretReference, resolveSecretReference, SecretReference } from './secrets'
+
+export interface RemoteSourceOptions {
+  // Extra request headers; values may be secret references, e.g. { "$secret": "env:CONFIG_TOKEN" }
+  headers?: Record<string, string | SecretReference>
+  // Sent as "Authorization: Bearer <token>"
+  bearerToken?: string | SecretReference
+  timeout?: number // Per request, in milliseconds
+  retries?: number // Attempts after the first one
+  retryDelay?: number // Initial backoff in milliseconds, doubled on every retry
+  maxRetryDelay?: number
+  // How long after expiry a copy is served while it is refreshed in the background
+  staleWhileRevalidate?: number
+  // Serve the last good copy when the remote cannot be reached
+  staleIfError?: boolean
+}
+
+export interface RemoteConfigState {
+  url: string
+  etag?: string
+  lastModified?: string
+  fetchedAt: Date
+  revalidating: boolean
+}
+
+interface RemoteEntry {
+  url: string
+  config: any
+  etag?: string
+  lastModified?: string
+  fetchedAt: number
+  revalidation?: Promise<any>
+}
+
+const DEFAULT_REMOTE_OPTIONS = {
+  timeout: 10000,
+  retries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 8000,
+  staleWhileRevalidate: 0,
+  staleIfError: true,
+}
+
+const DEFAULT_REMOTE_TTL = 300000
+
+// Last good copy of each remote configuration, keyed by URL and request headers
+const remoteEntries = new Map<string, RemoteEntry>()
+
+class RemoteRequestError extends Error {
+  constructor(message: string, public retryable: boolean, public retryAfter?: number) {
+    super(message)
+    this.name = 'RemoteRequestError'
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function resolveHeaderValue(value: string | SecretReference, name: string): Promise<string> {
+  return isSecretReference(value) ? resolveSecretReference(value, `headers.${name}`) : value
+}
+
+/**
+ * Build request headers, resolving secret references
+ */
+async function buildHeaders(options: RemoteSourceOptions): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json, application/yaml, application/toml;q=0.9, */*;q=0.1',
+  }
+  
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    headers[name] = await resolveHeaderValue(value, name)
+  }
+  
+  if (options.bearerToken) {
+    headers.Authorization = `Bearer ${await resolveHeaderValue(options.bearerToken, 'Authorization')}`
+  }
+  
+  return headers
+}
+
+/**
+ * Key a copy by URL and request headers, so requests made with different
+ * credentials never share a response; headers are hashed to keep tokens out
+ */
+function getRemoteEntryKey(url: string, headers: Record<string, string>): string {
+  const normalized = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => a.localeCompare(b))
+  const digest = crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16)
+  return `${url}#${digest}`
+}
+
+/**
+ * Add validators from the current copy for a conditional request
+ */
+function withValidators(headers: Record<string, string>, entry?: RemoteEntry): Record<string, string> {
+  const conditional = { ...headers }
+  if (entry?.etag) conditional['If-None-Match'] = entry.etag
+  if (entry?.lastModified) conditional['If-Modified-Since'] = entry.lastModified
+  return conditional
+}
+
+/**
+ * Pick a parser from the Content-Type, falling back to the URL's extension and then JSON
+ */
+function getResponseFormat(url: string, contentType: string | null): ConfigFileFormat {
+  if (contentType?.includes('json')) return 'json'
+  if (contentType?.includes('yaml') || contentType?.includes('yml')) return 'yaml'
+  if (contentType?.includes('toml')) return 'toml'
+  
+  try {
+    return getConfigFileFormat(new URL(url).pathname) ?? 'json'
+  } catch {
+    return 'json'
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Make a single request; returns undefined when the server answers 304 Not Modified
+ */
+async function requestRemoteConfig(
+  url: string,
+  headers: Record<string, string>,
+  options: Required<Pick<RemoteSourceOptions, 'timeout'>> & RemoteSourceOptions,
+  entry?: RemoteEntry
+): Promise<Omit<RemoteEntry, 'url' | 'fetchedAt'> | undefined> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeout)
+  
+  try {
+    const response = await fetch(url, {
+      headers: withValidators(headers, entry),
+      signal: controller.signal,
+    })
+    
+    if (response.status === 304 && entry) {
+      return undefined
+    }
+    
+    if (!response.ok) {
+      // Client errors will not go away by asking again, except rate limiting
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429
+      throw new RemoteRequestError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        retryable,
+        parseRetryAfter(response.headers.get('retry-after'))
+      )
+    }
+    
+    const text = await response.text()
+    const format = getResponseFormat(url, response.headers.get('content-type'))
+    const { parseConfigContent } = await import('./parsers')
+    
+    return {
+      config: parseConfigContent(text, format, url),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    }
+  } catch (error) {
+    // Parse errors keep their position and are not retried
+    if (error instanceof RemoteRequestError || error instanceof ConfigParseError) throw error
+    if (controller.signal.aborted) {
+      throw new RemoteRequestError(`Request timed out after ${options.timeout}ms`, true)
+    }
+    // Network failures (connection refused, DNS) are worth retrying
+    const retryable = error instanceof TypeError
+    throw new RemoteRequestError(error instanceof Error ? error.message : String(error), retryable)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Fetch a remote configuration, retrying with exponential backoff
+ */
+async function fetchWithRetries(
+  url: string,
+  headers: Record<string, string>,
+  options: RemoteSourceOptions,
+  entry?: RemoteEntry
+): Promise<RemoteEntry> {
+  const settings = { ...DEFAULT_REMOTE_OPTIONS, ...options }
+  
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await requestRemoteConfig(url, headers, settings, entry)
+      const fetched: RemoteEntry = result
+        ? { url, ...result, fetchedAt: Date.now() }
+        : { url, config: entry!.config, etag: entry!.etag, lastModified: entry!.lastModified, fetchedAt: Date.now() }
+      
+      if (!result) envLog('info', `Remote config not modified: ${url}`)
+      remoteEntries.set(getRemoteEntryKey(url, headers), fetched)
+      return fetched
+    } catch (error) {
+      const requestError = error as RemoteRequestError
+      if (!requestError.retryable || attempt >= settings.retries) {
+        throw requestError
+      }
+      
+      const backoff = settings.retryDelay * 2 ** attempt
+      const delay = Math.min(requestError.retryAfter ?? backoff, settings.maxRetryDelay)
+      envLog('warn', `Remote config request failed (${requestError.message}), retrying in ${delay}ms: ${url}`)
+      await sleep(delay)
+    }
+  }
+}
+
+/**
+ * Refresh an entry in the background, sharing one request between callers
+ */
+function revalidate(
+  url: string,
+  headers: Record<string, string>,
+  options: RemoteSourceOptions,
+  entry: RemoteEntry
+): Promise<any> {
+  if (!entry.revalidation) {
+    entry.revalidation = fetchWithRetries(url, headers, options, entry)
+      .then(fetched => fetched.config)
+      .catch(error => {
+        envLog('warn', `Background refresh of remote config failed: ${url}`, error)
+        return entry.config
+      })
+      .finally(() => {
+        entry.revalidation = undefined
+      })
+  }
+  return entry.revalidation
+}
+
+/**
+ * Load configuration from a URL
+ *
+ * Within `ttl` the last response is reused without a request. After that a
+ * conditional request is made; within `staleWhileRevalidate` the stale copy is
+ * returned immediately while the request runs in the background. If the
+ * remote cannot be reached the last good copy is served (`staleIfError`).
+ * Copies are kept per URL and request headers.
+ */
+export async function loadRemoteConfig(
+  url: string,
+  options: RemoteSourceOptions = {},
+  ttl = DEFAULT_REMOTE_TTL
+): Promise<any> {
+  const settings = { ...DEFAULT_REMOTE_OPTIONS, ...options }
+  const headers = await buildHeaders(settings)
+  const entry = remoteEntries.get(getRemoteEntryKey(url, headers))
+  
+  if (entry) {
+    const age = Date.now() - entry.fetchedAt
+    if (age < ttl) {
+      return entry.config
+    }
+    if (age < ttl + settings.staleWhileRevalidate) {
+      envLog('info', `Serving stale remote config while revalidating: ${url}`)
+      revalidate(url, headers, settings, entry)
+      return entry.config
+    }
+  }
+  
+  try {
+    return (await fetchWithRetries(url, headers, settings, entry)).config
+  } catch (error) {
+    if (entry && settings.staleIfError) {
+      envLog('warn', `Remote config unavailable, serving copy from ${new Date(entry.fetchedAt).toISOString()}: ${url}`, error)
+      return entry.config
+    }
+    envLog('error', `Failed to load config from URL: ${url}`, error)
+    throw error
+  }
+}
+
+/**
+ * Describe the cached copies of remote configurations
+ */
+export function getRemoteConfigState(): RemoteConfigState[] {
+  return Array.from(remoteEntries.values()).map(entry => ({
+    url: entry.url,
+    etag: entry.etag,
+    lastModified: entry.lastModified,
+    fetchedAt: new Date(entry.fetchedAt),
+    revalidating: Boolean(entry.revalidation),
+  }))
+}
+
+/**
+ * Forget the last good copies of one or all remote configurations
+ */
+export function clearRemoteConfigCache(url?: string): void {
+  if (url) {
+    for (const [key, entry] of remoteEntries) {
+      if (entry.url === url) remoteEntries.delete(key)
+    }
+  } else {
+    remoteEntries.clear()
+  }
+}
\ No newline at end of file
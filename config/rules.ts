@@ -0,0 +1,246 @@
+/**
+ * Semantic Validation Rules
+ * Cross-field checks that run on top of the zod schema
+ */
+
+import type { ArchitectResumeConfig } from './schema'
+
+export type RuleSeverity = 'error' | 'warning'
+
+export interface SemanticIssue {
+  rule: string
+  severity: RuleSeverity
+  path: string
+  message: string
+}
+
+/**
+ * Site content from outside the configuration that rules may check against;
+ * rules that need a missing field are skipped
+ *
+ * Server code loads it with loadSemanticRuleContext from the loader.
+ */
+export interface SemanticRuleContext {
+  // Number of blog posts marked as featured
+  featuredPostCount?: number
+  // Skill category titles rendered by the skills section
+  renderedSkillCategories?: string[]
+}
+
+export interface SemanticRule {
+  name: string
+  description?: string
+  // Severity for issues that do not set their own
+  severity: RuleSeverity
+  check: (
+    config: ArchitectResumeConfig,
+    context: SemanticRuleContext
+  ) => Array<Omit<SemanticIssue, 'rule' | 'severity'> & { severity?: RuleSeverity }>
+}
+
+export interface SemanticValidationResult {
+  isValid: boolean
+  errors: SemanticIssue[]
+  warnings: SemanticIssue[]
+}
+
+/**
+ * Parse YYYY, YYYY-MM or full date strings into a comparable timestamp
+ */
+function parseDate(value: string): number | undefined {
+  const partial = value.match(/^(\d{4})(?:-(\d{2}))?$/)
+  if (partial) {
+    return Date.UTC(parseInt(partial[1]), partial[2] ? parseInt(partial[2]) - 1 : 0)
+  }
+  
+  const timestamp = Date.parse(value)
+  return isNaN(timestamp) ? undefined : timestamp
+}
+
+function checkDateRanges(
+  items: Array<{ startDate: string; endDate?: string }>,
+  basePath: string
+) {
+  const issues: ReturnType<SemanticRule['check']> = []
+  
+  items.forEach((item, index) => {
+    if (!item.endDate) return
+    
+    const start = parseDate(item.startDate)
+    const end = parseDate(item.endDate)
+    if (start !== undefined && end !== undefined && end < start) {
+      issues.push({
+        path: `${basePath}.${index}.endDate`,
+        message: `End date ${item.endDate} is before start date ${item.startDate}`,
+      })
+    }
+  })
+  
+  return issues
+}
+
+function checkCurrentEntries(
+  items: Array<{ current?: boolean; endDate?: string }>,
+  basePath: string
+) {
+  return items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.current && item.endDate)
+    .map(({ index }) => ({
+      path: `${basePath}.${index}.endDate`,
+      message: 'Current entries should not have an end date',
+    }))
+}
+
+function checkUniqueIds(items: Array<{ id: string }>, basePath: string) {
+  const issues: ReturnType<SemanticRule['check']> = []
+  const seen = new Map<string, number>()
+  
+  items.forEach((item, index) => {
+    const first = seen.get(item.id)
+    if (first !== undefined) {
+      issues.push({
+        path: `${basePath}.${index}.id`,
+        message: `Duplicate id "${item.id}" (first used at ${basePath}.${first}.id)`,
+      })
+    } else {
+      seen.set(item.id, index)
+    }
+  })
+  
+  return issues
+}
+
+/**
+ * Rules that ship with the configuration system
+ */
+export const BUILT_IN_RULES: SemanticRule[] = [
+  {
+    name: 'date-order',
+    description: 'End dates must not precede start dates',
+    severity: 'error',
+    check: config => [
+      ...checkDateRanges(config.experience?.items || [], 'experience.items'),
+      ...checkDateRanges(config.education?.items || [], 'education.items'),
+    ],
+  },
+  {
+    name: 'current-without-end-date',
+    description: 'Entries marked current must not have an end date',
+    severity: 'error',
+    check: config => [
+      ...checkCurrentEntries(config.experience?.items || [], 'experience.items'),
+      ...checkCurrentEntries(config.education?.items || [], 'education.items'),
+    ],
+  },
+  {
+    name: 'unique-ids',
+    description: 'Projects, experience and education ids must be unique',
+    severity: 'error',
+    check: config => [
+      ...checkUniqueIds(config.portfolio?.projects || [], 'portfolio.projects'),
+      ...checkUniqueIds(config.experience?.items || [], 'experience.items'),
+      ...checkUniqueIds(config.education?.items || [], 'education.items'),
+    ],
+  },
+  {
+    name: 'rendered-skill-categories',
+    description: 'Every skill category must be rendered by a skills section',
+    severity: 'warning',
+    check: (config, context) => {
+      const rendered = context.renderedSkillCategories
+      if (!rendered) return []
+      
+      return (config.skills?.items || [])
+        .map((skill, index) => ({ skill, index }))
+        .filter(({ skill }) => !rendered.includes(skill.category))
+        .map(({ skill, index }) => ({
+          path: `skills.items.${index}.category`,
+          message: `Category "${skill.category}" is not rendered by the skills section, so "${skill.name}" is never shown`,
+        }))
+    },
+  },
+  {
+    name: 'featured-posts-limit',
+    description: 'The featured posts limit should not exceed the number of featured posts',
+    severity: 'warning',
+    check: (config, context) => {
+      const limit = config.blog?.featuredPostsLimit
+      const available = context.featuredPostCount
+      if (available === undefined || !config.blog?.enabled || limit === undefined || limit <= available) {
+        return []
+      }
+      
+      return [{
+        path: 'blog.featuredPostsLimit',
+        message: `Limit of ${limit} exceeds the ${available} featured posts available`,
+      }]
+    },
+  },
+]
+
+const rules = new Map<string, SemanticRule>(
+  BUILT_IN_RULES.map(rule => [rule.name, rule])
+)
+
+/**
+ * Register a semantic rule, replacing any rule with the same name
+ */
+export function registerSemanticRule(rule: SemanticRule): void {
+  rules.set(rule.name, rule)
+}
+
+/**
+ * Remove a semantic rule by name
+ */
+export function unregisterSemanticRule(name: string): boolean {
+  return rules.delete(name)
+}
+
+/**
+ * Get all registered semantic rules
+ */
+export function getSemanticRules(): SemanticRule[] {
+  return Array.from(rules.values())
+}
+
+/**
+ * Run semantic rules against a schema-valid configuration
+ */
+export function validateSemantics(
+  config: ArchitectResumeConfig,
+  context: SemanticRuleContext,
+  ruleSet: SemanticRule[] = getSemanticRules()
+): SemanticValidationResult {
+  const issues: SemanticIssue[] = []
+  
+  for (const rule of ruleSet) {
+    try {
+      rule.check(config, context).forEach(issue => {
+        issues.push({ ...issue, rule: rule.name, severity: issue.severity || rule.severity })
+      })
+    } catch (error) {
+      issues.push({
+        rule: rule.name,
+        severity: 'error',
+        path: '',
+        message: `Rule failed: ${error instanceof Error ? error.message : error}`,
+      })
+    }
+  }
+  
+  const errors = issues.filter(issue => issue.severity === 'error')
+  
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  }
+}
+
+/**
+ * Format an issue the same way schema errors are reported
+ */
+export function formatSemanticIssue(issue: SemanticIssue): string {
+  return `${issue.path || '(root)'}: ${issue.message} [${issue.rule}]`
+}
\ No newline at end of file
@@ -4,20 +4,49 @@
  */
 
 import { z } from 'zod'
+import type { TemplateEscaping } from './template'
+
+// Current configuration schema version; see migrations.ts for upgrades
+export const CURRENT_SCHEMA_VERSION = 1
+
+// Escaping of template output per field, set with withEscaping()
+const templateEscaping = new WeakMap<z.ZodTypeAny, TemplateEscaping>()
+
+/**
+ * Set how values substituted into a field's templates are escaped; fields
+ * inside it inherit the escaping
+ */
+export function withEscaping<T extends z.ZodTypeAny>(schema: T, escaping: TemplateEscaping): T {
+  templateEscaping.set(schema, escaping)
+  return schema
+}
+
+// Fields that always hold secrets, set with asSecret()
+const secretFields = new WeakSet<z.ZodTypeAny>()
+
+/**
+ * Mark a field as secret, so its value is redacted from client output even
+ * when it is set directly or by an environment override
+ */
+export function asSecret<T extends z.ZodTypeAny>(schema: T): T {
+  secretFields.add(schema)
+  return schema
+}
 
 // Personal Information Schema
 export const PersonalInfoSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  title: z.string().min(1, 'Title is required'),
-  email: z.string().email('Invalid email address'),
-  phone: z.string().optional(),
-  location: z.string().min(1, 'Location is required'),
-  website: z.string().url().optional(),
-  linkedIn: z.string().url().optional(),
-  github: z.string().url().optional(),
-  bio: z.string().min(10, 'Bio must be at least 10 characters'),
-  avatar: z.string().url().optional(),
-})
+  name: z.string().min(1, 'Name is required').describe('Full name shown in the hero, footer and metadata'),
+  title: z.string().min(1, 'Title is required').describe('Professional title, e.g. "Senior Architect"'),
+  email: z.string().email('Invalid email address').describe('Public contact email address'),
+  phone: z.string().optional().describe('Public contact phone number'),
+  location: z.string().min(1, 'Location is required').describe('City and region where you practice'),
+  website: z.string().url().optional().describe('Personal website URL'),
+  linkedIn: z.string().url().optional().describe('LinkedIn profile URL'),
+  github: z.string().url().optional().describe('GitHub profile URL'),
+  // Rendered as markup in the hero section
+  bio: withEscaping(z.string().min(10, 'Bio must be at least 10 characters').describe('Short professional biography'), 'html'),
+  avatar: z.string().url().optional().describe('Profile photo URL'),
+}).describe('Personal information and contact details')
 
 // Social Links Schema
 export const SocialLinksSchema = z.object({
@@ -28,142 +57,148 @@ export const SocialLinksSchema = z.object({
   behance: z.string().url().optional(),
   dribbble: z.string().url().optional(),
   facebook: z.string().url().optional(),
-})
+}).describe('Social media profile URLs')
 
 // SEO Configuration Schema
 export const SEOConfigSchema = z.object({
-  title: z.string().min(1).max(60, 'Title should be under 60 characters'),
-  description: z.string().min(50).max(160, 'Description should be 50-160 characters'),
-  keywords: z.array(z.string()).min(3, 'At least 3 keywords required'),
-  author: z.string().min(1, 'Author is required'),
-  siteName: z.string().min(1, 'Site name is required'),
-  siteUrl: z.string().url('Invalid site URL'),
-  locale: z.string().default('en-US'),
-  ogImage: z.string().url().optional(),
-  twitterCard: z.enum(['summary', 'summary_large_image']).default('summary_large_image'),
-})
+  // These end up in meta tag attributes through app/metadata.ts
+  title: withEscaping(z.string().min(1).max(60, 'Title should be under 60 characters').describe('Page title (under 60 characters)'), 'attr'),
+  description: withEscaping(z.string().min(50).max(160, 'Description should be 50-160 characters').describe('Meta description (50-160 characters)'), 'attr'),
+  keywords: withEscaping(z.array(z.string()).min(3, 'At least 3 keywords required').describe('Meta keywords (at least 3)'), 'attr'),
+  author: withEscaping(z.string().min(1, 'Author is required').describe('Author metadata'), 'attr'),
+  siteName: withEscaping(z.string().min(1, 'Site name is required').describe('Site name used in Open Graph tags'), 'attr'),
+  siteUrl: z.string().url('Invalid site URL').describe('Canonical site URL'),
+  locale: z.string().default('en-US').describe('Content locale, e.g. en-US'),
+  ogImage: z.string().url().optional().describe('Open Graph preview image URL'),
+  twitterCard: z.enum(['summary', 'summary_large_image']).default('summary_large_image').describe('Twitter card layout'),
+}).describe('Search engine and social sharing metadata')
 
 // Theme Configuration Schema
 export const ThemeConfigSchema = z.object({
-  primaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color'),
-  secondaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color'),
-  accentColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color'),
-  backgroundColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color'),
-  textColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color'),
+  primaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color').describe('Primary brand color (hex)'),
+  secondaryColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color').describe('Secondary brand color (hex)'),
+  accentColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color').describe('Accent color (hex)'),
+  backgroundColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color').describe('Page background color (hex)'),
+  textColor: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid hex color').describe('Body text color (hex)'),
   fonts: z.object({
-    primary: z.string().min(1, 'Primary font is required'),
-    secondary: z.string().min(1, 'Secondary font is required'),
-    mono: z.string().min(1, 'Mono font is required'),
-  }),
-  customCSS: z.string().optional(),
-})
+    primary: z.string().min(1, 'Primary font is required').describe('Body font family'),
+    secondary: z.string().min(1, 'Secondary font is required').describe('Heading font family'),
+    mono: z.string().min(1, 'Mono font is required').describe('Monospace font family'),
+  }).describe('Font families'),
+  customCSS: z.string().optional().describe('Additional CSS injected into the page'),
+}).describe('Colors and fonts')
 
 // Portfolio Project Schema
 export const PortfolioProjectSchema = z.object({
-  id: z.string().min(1, 'Project ID is required'),
+  id: z.string().min(1, 'Project ID is required').describe('Unique project identifier'),
   title: z.string().min(1, 'Project title is required'),
   description: z.string().min(10, 'Description must be at least 10 characters'),
-  category: z.string().min(1, 'Category is required'),
-  imageUrl: z.string().url('Invalid image URL'),
-  galleryImages: z.array(z.string().url()).optional(),
+  category: z.string().min(1, 'Category is required').describe('Category used by the portfolio filter'),
+  imageUrl: z.string().url('Invalid image URL').describe('Cover image URL'),
+  galleryImages: z.array(z.string().url()).optional().describe('Additional image URLs'),
   technologies: z.array(z.string()).optional(),
   client: z.string().optional(),
-  year: z.number().int().min(1900).max(new Date().getFullYear() + 10),
-  featured: z.boolean().default(false),
+  year: z.number().int().min(1900).max(new Date().getFullYear() + 10).describe('Year of completion'),
+  featured: z.boolean().default(false).describe('Highlight the project on the home page'),
   url: z.string().url().optional(),
   githubUrl: z.string().url().optional(),
-  status: z.enum(['completed', 'in-progress', 'concept']).default('completed'),
-})
+  status: z.enum(['completed', 'in-progress', 'concept']).default('completed').describe('Project status'),
+}).describe('A portfolio project')
 
 // Experience Schema
 export const ExperienceSchema = z.object({
-  id: z.string().min(1, 'Experience ID is required'),
+  id: z.string().min(1, 'Experience ID is required').describe('Unique experience identifier'),
   company: z.string().min(1, 'Company name is required'),
   position: z.string().min(1, 'Position is required'),
   location: z.string().min(1, 'Location is required'),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().optional(),
-  current: z.boolean().default(false),
+  startDate: z.string().min(1, 'Start date is required').describe('Start date, e.g. 2020-01'),
+  endDate: z.string().optional().describe('End date; omit for current positions'),
+  current: z.boolean().default(false).describe('Whether this is a current position'),
   description: z.string().min(10, 'Description must be at least 10 characters'),
   achievements: z.array(z.string()).optional(),
   technologies: z.array(z.string()).optional(),
-})
+}).describe('A work experience entry')
 
 // Education Schema
 export const EducationSchema = z.object({
-  id: z.string().min(1, 'Education ID is required'),
+  id: z.string().min(1, 'Education ID is required').describe('Unique education identifier'),
   institution: z.string().min(1, 'Institution name is required'),
   degree: z.string().min(1, 'Degree is required'),
   field: z.string().min(1, 'Field of study is required'),
   location: z.string().min(1, 'Location is required'),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().optional(),
-  current: z.boolean().default(false),
-  gpa: z.number().min(0).max(4).optional(),
+  startDate: z.string().min(1, 'Start date is required').describe('Start date, e.g. 2010-09'),
+  endDate: z.string().optional().describe('End date; omit while studying'),
+  current: z.boolean().default(false).describe('Whether you are currently enrolled'),
+  gpa: z.number().min(0).max(4).optional().describe('Grade point average on a 4.0 scale'),
   honors: z.array(z.string()).optional(),
   description: z.string().optional(),
-})
+}).describe('An education entry')
 
 // Skill Schema
 export const SkillSchema = z.object({
   name: z.string().min(1, 'Skill name is required'),
-  level: z.number().int().min(1).max(100, 'Skill level must be between 1-100'),
-  category: z.string().min(1, 'Category is required'),
-  icon: z.string().optional(),
-})
+  level: z.number().int().min(1).max(100, 'Skill level must be between 1-100').describe('Proficiency from 1 to 100'),
+  category: z.string().min(1, 'Category is required').describe('Category used to group skills'),
+  icon: z.string().optional().describe('Icon name'),
+}).describe('A skill with proficiency level')
 
 // Blog Configuration Schema
 export const BlogConfigSchema = z.object({
   enabled: z.boolean().default(true),
-  postsPerPage: z.number().int().min(1).max(50).default(10),
-  featuredPostsLimit: z.number().int().min(1).max(20).default(3),
-  categories: z.array(z.string()).default([]),
+  postsPerPage: z.number().int().min(1).max(50).default(10).describe('Posts shown per page'),
+  featuredPostsLimit: z.number().int().min(1).max(20).default(3).describe('Maximum number of featured posts'),
+  categories: z.array(z.string()).default([]).describe('Blog categories'),
   showReadTime: z.boolean().default(true),
   showAuthor: z.boolean().default(true),
   enableComments: z.boolean().default(false),
-})
+}).describe('Blog settings')
 
 // Contact Configuration Schema
 export const ContactConfigSchema = z.object({
   enabled: z.boolean().default(true),
   showForm: z.boolean().default(true),
-  formEndpoint: z.string().url().optional(),
+  formEndpoint: z.string().url().optional().describe('URL the contact form posts to'),
+  formApiKey: asSecret(z.string()).optional().describe('API key for the form service; use a $secret reference'),
   showEmail: z.boolean().default(true),
   showPhone: z.boolean().default(true),
   showSocial: z.boolean().default(true),
   mapEnabled: z.boolean().default(false),
-  mapApiKey: z.string().optional(),
-  officeAddress: z.string().optional(),
-})
+  mapApiKey: asSecret(z.string()).optional().describe('Maps API key; use a $secret reference'),
+  officeAddress: z.string().optional().describe('Office address shown on the map'),
+}).describe('Contact section settings')
 
 // Chatbot Configuration Schema
 export const ChatbotConfigSchema = z.object({
   enabled: z.boolean().default(false),
-  name: z.string().min(1, 'Chatbot name is required'),
+  name: z.string().min(1, 'Chatbot name is required').describe('Display name of the assistant'),
   avatar: z.string().url().optional(),
-  welcomeMessage: z.string().min(1, 'Welcome message is required'),
-  responses: z.record(z.array(z.string())).default({}),
-  apiEndpoint: z.string().url().optional(),
-  model: z.string().optional(),
-})
+  welcomeMessage: z.string().min(1, 'Welcome message is required').describe('First message shown to visitors'),
+  responses: z.record(z.array(z.string())).default({}).describe('Canned responses keyed by topic'),
+  // Only the server calls the chat API, so its endpoint stays out of client output
+  apiEndpoint: asSecret(z.string().url()).optional().describe('Chat completion API endpoint'),
+  apiKey: asSecret(z.string()).optional().describe('API key for the chat endpoint; use a $secret reference'),
+  model: z.string().optional().describe('Model identifier'),
+}).describe('AI chatbot settings')
 
 // Analytics Configuration Schema
 export const AnalyticsConfigSchema = z.object({
-  googleAnalytics: z.string().optional(),
-  googleTagManager: z.string().optional(),
-  hotjar: z.string().optional(),
-  mixpanel: z.string().optional(),
-  customTracking: z.string().optional(),
-})
+  // The IDs are not secret: the tracking scripts send them from every visitor's browser
+  googleAnalytics: z.string().optional().describe('Google Analytics measurement ID'),
+  googleTagManager: z.string().optional().describe('Google Tag Manager container ID'),
+  hotjar: z.string().optional().describe('Hotjar site ID'),
+  mixpanel: z.string().optional().describe('Mixpanel project token'),
+  // Substitutions in the snippet land inside script strings
+  customTracking: withEscaping(z.string(), 'json').optional().describe('Custom tracking snippet'),
+}).describe('Analytics integration IDs')
 
 // Deployment Configuration Schema
 export const DeploymentConfigSchema = z.object({
-  platform: z.enum(['vercel', 'netlify', 'github-pages', 'aws', 'custom']).default('vercel'),
-  basePath: z.string().optional(),
-  assetPrefix: z.string().optional(),
-  customDomain: z.string().url().optional(),
-  environment: z.enum(['development', 'staging', 'production']).default('development'),
-})
+  platform: z.enum(['vercel', 'netlify', 'github-pages', 'aws', 'custom']).default('vercel').describe('Hosting platform'),
+  basePath: z.string().optional().describe('Base path when served from a subdirectory'),
+  assetPrefix: z.string().optional().describe('Prefix for static asset URLs'),
+  customDomain: z.string().url().optional().describe('Custom domain URL'),
+  environment: z.enum(['development', 'staging', 'production']).default('development').describe('Deployment environment'),
+}).describe('Deployment target settings')
 
 // Feature Flags Schema
 export const FeatureFlagsSchema = z.object({
@@ -178,10 +213,14 @@ export const FeatureFlagsSchema = z.object({
   darkMode: z.boolean().default(false),
   animations: z.boolean().default(true),
   lazyLoading: z.boolean().default(true),
-})
+}).describe('Enable or disable site features')
 
 // Main Configuration Schema
 export const ArchitectResumeConfigSchema = z.object({
+  // Schema version, upgraded automatically by the loader
+  schemaVersion: z.number().int().min(0).default(CURRENT_SCHEMA_VERSION)
+    .describe('Configuration schema version; older documents are migrated automatically'),
+  
   // Core configuration
   personal: PersonalInfoSchema,
   social: SocialLinksSchema,
@@ -194,25 +233,25 @@ export const ArchitectResumeConfigSchema = z.object({
     enabled: z.boolean().default(true),
     projects: z.array(PortfolioProjectSchema).default([]),
     categoriesFilter: z.boolean().default(true),
-    projectsPerPage: z.number().int().min(1).max(50).default(12),
-  }),
+    projectsPerPage: z.number().int().min(1).max(50).default(12).describe('Projects shown per page'),
+  }).describe('Portfolio section and projects'),
   
   experience: z.object({
     enabled: z.boolean().default(true),
     items: z.array(ExperienceSchema).default([]),
-  }),
+  }).describe('Work experience section'),
   
   education: z.object({
     enabled: z.boolean().default(true),
     items: z.array(EducationSchema).default([]),
-  }),
+  }).describe('Education section'),
   
   skills: z.object({
     enabled: z.boolean().default(true),
     items: z.array(SkillSchema).default([]),
-    showLevels: z.boolean().default(true),
+    showLevels: z.boolean().default(true).describe('Show proficiency bars'),
     groupByCategory: z.boolean().default(true),
-  }),
+  }).describe('Skills section'),
   
   blog: BlogConfigSchema,
   contact: ContactConfigSchema,
@@ -229,8 +268,13 @@ export const ArchitectResumeConfigSchema = z.object({
     optimizeImages: z.boolean().default(true),
     minifyCSS: z.boolean().default(true),
     minifyJS: z.boolean().default(true),
-  }),
-})
+  }).describe('Build-time optimizations'),
+  
+  // Template configuration
+  templates: z.object({
+    partials: z.record(z.string()).default({}).describe('Reusable template snippets, included with {{> name}}'),
+  }).optional().describe('Templates shared by config strings'),
+}).describe('architect-resume site configuration')
 
 // Environment Configuration Schema
 export const EnvironmentConfigSchema = z.object({
@@ -318,4 +362,85 @@ export function validateEnvironment(env: unknown): {
     }
     throw error
   }
+}
+
+/**
+ * Schema of the next step of a path, or undefined if the schema has no such field
+ */
+function getChildSchema(schema: z.ZodTypeAny, key: string): z.ZodTypeAny | undefined {
+  if (schema instanceof z.ZodArray) return /^\d+$/.test(key) ? schema.element : undefined
+  if (schema instanceof z.ZodRecord) return schema._def.valueType
+  if (schema instanceof z.ZodObject) return schema.shape[key] ?? schema._def.catchall
+  return undefined
+}
+
+/**
+ * Escaping for the templates of the field at a dot path such as `seo.title`
+ * or `portfolio.projects.0.url`
+ *
+ * The escaping set closest to the field wins. URL fields escape as URLs unless
+ * set otherwise; everything else defaults to 'none' because React escapes
+ * text and attributes when the page renders.
+ */
+export function getTemplateEscaping(
+  path: string,
+  schema: z.ZodTypeAny = ArchitectResumeConfigSchema
+): TemplateEscaping {
+  let escaping: TemplateEscaping | undefined
+  let current: z.ZodTypeAny | undefined = schema
+  const keys = path ? path.split('.') : []
+  
+  for (let i = 0; current; ) {
+    escaping = templateEscaping.get(current) ?? escaping
+    
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap()
+    } else if (current instanceof z.ZodDefault) {
+      current = current._def.innerType
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType()
+    } else if (i < keys.length) {
+      current = getChildSchema(current, keys[i++])
+    } else {
+      break
+    }
+  }
+  
+  if (escaping) return escaping
+  const isUrl = current instanceof z.ZodString && current._def.checks.some(check => check.kind === 'url')
+  return isUrl ? 'url' : 'none'
+}
+
+/**
+ * Dot paths of the values in a configuration that belong to secret fields
+ */
+export function getSecretFieldPaths(
+  config: any,
+  schema: z.ZodTypeAny = ArchitectResumeConfigSchema,
+  path: string[] = []
+): string[] {
+  let current: z.ZodTypeAny = schema
+  
+  while (true) {
+    if (secretFields.has(current)) {
+      return config === undefined || config === null ? [] : [path.join('.')]
+    }
+    
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap()
+    } else if (current instanceof z.ZodDefault) {
+      current = current._def.innerType
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType()
+    } else {
+      break
+    }
+  }
+  
+  if (config === null || typeof config !== 'object') return []
+  
+  return Object.entries(config).flatMap(([key, value]) => {
+    const child = getChildSchema(current, key)
+    return child ? getSecretFieldPaths(value, child, [...path, key]) : []
+  })
 }
\ No newline at end of file
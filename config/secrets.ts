@@ -0,0 +1,198 @@
+/**
+ * Secret References
+ * Resolves { "$secret": "env:NAME" } values on the server and keeps them out of client output
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { isServerSide } from './environment'
+import { decryptValue, loadEncryptionKey } from './encryption'
+
+export interface SecretReference {
+  $secret: string
+}
+
+export interface SecretResolution {
+  config: any
+  // Dot paths of values that came from secret references
+  secrets: string[]
+  errors: string[]
+}
+
+export interface SecretLeak {
+  file: string
+  secretPath: string
+}
+
+/**
+ * Static output directories checked for leaked secrets
+ */
+export const STATIC_OUTPUT_DIRS = ['out', '.next/static']
+
+// Text files in build output that could carry configuration values
+const TEXT_OUTPUT_EXTENSIONS = new Set(['.html', '.js', '.mjs', '.json', '.txt', '.css', '.map', '.xml', '.rsc'])
+
+function isObject(obj: any): obj is Record<string, any> {
+  return obj !== null && typeof obj === 'object' && !Array.isArray(obj)
+}
+
+/**
+ * Check whether a value is a secret reference
+ */
+export function isSecretReference(value: any): value is SecretReference {
+  return isObject(value) && typeof value.$secret === 'string' && Object.keys(value).length === 1
+}
+
+/**
+ * Resolve a single secret reference (env:NAME, file:/path/to/secret or encrypted:VALUE)
+ */
+export async function resolveSecretReference(
+  reference: SecretReference,
+  configPath = ''
+): Promise<string> {
+  const separator = reference.$secret.indexOf(':')
+  const provider = reference.$secret.slice(0, separator)
+  const target = reference.$secret.slice(separator + 1)
+  
+  if (separator === -1 || !target) {
+    throw new Error(`Invalid secret reference "${reference.$secret}", expected env:NAME or file:PATH`)
+  }
+  
+  switch (provider) {
+    case 'env': {
+      const value = process.env[target]
+      if (value === undefined || value === '') {
+        throw new Error(`Environment variable ${target} is not set`)
+      }
+      return value
+    }
+    
+    case 'file': {
+      const filePath = path.isAbsolute(target) ? target : path.join(process.cwd(), target)
+      // Secret files conventionally end with a newline
+      return (await fs.readFile(filePath, 'utf-8')).trim()
+    }
+    
+    case 'encrypted':
+      // Values from encrypted overlays are bound to their config path
+      return decryptValue(target, await loadEncryptionKey(), configPath)
+    
+    default:
+      throw new Error(`Unknown secret provider "${provider}" in "${reference.$secret}"`)
+  }
+}
+
+/**
+ * Find all secret references in a configuration object
+ */
+export function findSecretReferences(
+  value: any,
+  path: string[] = []
+): Array<{ path: string; reference: SecretReference }> {
+  if (isSecretReference(value)) {
+    return [{ path: path.join('.'), reference: value }]
+  }
+  
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findSecretReferences(item, [...path, String(index)]))
+  }
+  
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([key, child]) => findSecretReferences(child, [...path, key]))
+  }
+  
+  return []
+}
+
+function setPath(obj: any, path: string, value: any): void {
+  const keys = path.split('.')
+  const lastKey = keys.pop()!
+  const target = keys.reduce((current, key) => current?.[key], obj)
+  
+  if (target === undefined || target === null) return
+  
+  if (value === undefined && !Array.isArray(target)) {
+    delete target[lastKey]
+  } else {
+    target[lastKey] = value
+  }
+}
+
+/**
+ * Replace secret references with their values
+ *
+ * Secrets are only resolved on the server. In the browser the references are
+ * removed so that no secret, or its location, reaches client code.
+ */
+export async function resolveSecrets(config: any): Promise<SecretResolution> {
+  const references = findSecretReferences(config)
+  const errors: string[] = []
+  
+  if (references.length === 0) {
+    return { config, secrets: [], errors }
+  }
+  
+  const resolved = JSON.parse(JSON.stringify(config))
+  
+  for (const { path, reference } of references) {
+    if (!isServerSide()) {
+      setPath(resolved, path, undefined)
+      continue
+    }
+    
+    try {
+      setPath(resolved, path, await resolveSecretReference(reference, path))
+    } catch (error) {
+      setPath(resolved, path, undefined)
+      errors.push(`${path}: Failed to resolve secret: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  
+  return { config: resolved, secrets: references.map(({ path }) => path), errors }
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+  
+  const files = await Promise.all(entries.map(entry => {
+    const entryPath = path.join(dir, entry.name)
+    return entry.isDirectory() ? listFiles(entryPath) : Promise.resolve([entryPath])
+  }))
+  
+  return files.flat()
+}
+
+/**
+ * Scan static build output for resolved secret values
+ */
+export async function findSecretsInOutput(
+  secretValues: Record<string, string>,
+  outputDirs: string[] = STATIC_OUTPUT_DIRS
+): Promise<SecretLeak[]> {
+  const leaks: SecretLeak[] = []
+  // Very short values would match by accident
+  const candidates = Object.entries(secretValues).filter(([, value]) => value.length >= 6)
+  
+  if (candidates.length === 0) return leaks
+  
+  for (const dir of outputDirs) {
+    const files = (await listFiles(path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir)))
+      .filter(file => TEXT_OUTPUT_EXTENSIONS.has(path.extname(file).toLowerCase()))
+    
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf-8')
+      candidates.forEach(([secretPath, value]) => {
+        if (content.includes(value)) {
+          leaks.push({ file: path.relative(process.cwd(), file), secretPath })
+        }
+      })
+    }
+  }
+  
+  return leaks
+}
\ No newline at end of file
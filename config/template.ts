@@ -6,11 +6,44 @@
 import { ArchitectResumeConfig } from './schema'
 import { getRuntimeEnvironment } from './environment'
 
+export type TemplateArgType = 'string' | 'number' | 'boolean'
+
+// A trailing "?" marks an optional argument, e.g. 'number?'
+export type TemplateArgSpec = TemplateArgType | `${TemplateArgType}?`
+
+/**
+ * Receives the value as a string, followed by the arguments written after
+ * the function name: {{value|name:arg1:arg2}}
+ */
+export type TemplateFunction = (value: string, ...args: any[]) => any
+
+export interface TemplateFunctionOptions {
+  // Types of the arguments after the value; without this any arguments are accepted
+  argTypes?: TemplateArgSpec[]
+}
+
+export interface TemplateFunctionDefinition extends TemplateFunctionOptions {
+  fn: TemplateFunction
+}
+
+export type TemplateFunctionMap = Record<string, TemplateFunction | TemplateFunctionDefinition>
+
+/**
+ * How substituted values are escaped for where the output ends up
+ */
+export type TemplateEscaping = 'html' | 'attr' | 'url' | 'json' | 'none'
+
+export const TEMPLATE_ESCAPINGS: TemplateEscaping[] = ['html', 'attr', 'url', 'json', 'none']
+
 export interface TemplateContext {
   config: ArchitectResumeConfig
   env: Record<string, string | undefined>
   runtime: ReturnType<typeof getRuntimeEnvironment>
   custom?: Record<string, any>
+  // Templates available to {{> name}}
+  partials?: Record<string, string>
+  // Paths holding visitor input, e.g. 'form'; always escaped, even with |raw
+  untrusted?: string[]
 }
 
 /**
@@ -63,6 +96,196 @@ const TEMPLATE_FUNCTIONS = {
   uuid: () => crypto.randomUUID?.() || Math.random().toString(36),
   random: (min: number = 0, max: number = 100) =>
     Math.floor(Math.random() * (max - min + 1)) + min,
+  // Output the value as it is, without the field's escaping
+  raw: (value: string) => value,
+  // Escape for a given context instead of the field's escaping
+  escape: (value: string, escaping: string = 'html') => escapeTemplateValue(value, escaping as TemplateEscaping),
+}
+
+/**
+ * Arguments accepted by the built-in functions
+ */
+const BUILT_IN_ARG_TYPES: Record<string, TemplateArgSpec[]> = {
+  truncate: ['number?'],
+  date: ['string?'],
+  random: ['number?', 'number?'],
+  raw: [],
+  escape: ['string?'],
+}
+
+// Functions that choose the escaping themselves
+const ESCAPING_FUNCTIONS = ['raw', 'escape']
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '`': '&#96;',
+  '=': '&#61;',
+}
+
+// Schemes allowed at the start of a URL; anything else could run script
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel']
+
+/**
+ * Escape a value for a URL: whole URLs keep their structure, anything else is
+ * encoded as one component
+ */
+function escapeUrl(value: string): string {
+  const scheme = value.match(/^\s*([a-z][a-z\d+.-]*):/i)
+  if (scheme) {
+    if (!SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase())) return 'about:invalid'
+    // Keep escapes that are already in the URL
+    return encodeURI(value.trim()).replace(/%25([0-9a-f]{2})/gi, '%$1')
+  }
+  return encodeURIComponent(value)
+}
+
+/**
+ * Escape a value for the context it is written into
+ *
+ * `html` is for element content, `attr` also covers unquoted attribute
+ * values, `url` for links and `json` for the inside of a JSON or script string.
+ */
+export function escapeTemplateValue(value: string, escaping: TemplateEscaping): string {
+  switch (escaping) {
+    case 'html':
+      return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+    case 'attr':
+      return value.replace(/[&<>"'`=]/g, char => HTML_ESCAPES[char])
+    case 'url':
+      return escapeUrl(value)
+    case 'json':
+      return JSON.stringify(value).slice(1, -1)
+        .replace(/</g, '\\u003c')
+        .replace(/>/g, '\\u003e')
+        .replace(/&/g, '\\u0026')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029')
+    case 'none':
+      return value
+    default:
+      throw new Error(`Unknown template escaping "${escaping}"`)
+  }
+}
+
+const templateFunctions = new Map<string, TemplateFunctionDefinition>(
+  Object.entries(TEMPLATE_FUNCTIONS).map(([name, fn]) => [
+    name,
+    { fn: fn as TemplateFunction, argTypes: BUILT_IN_ARG_TYPES[name] ?? [] },
+  ])
+)
+
+/**
+ * Register a template function, replacing any function with the same name
+ *
+ * Functions are called as `{{personal.name|name:arg}}`; with `argTypes`,
+ * arguments are converted to those types and checked by validateTemplateString.
+ */
+export function registerTemplateFunction(
+  name: string,
+  fn: TemplateFunction,
+  options: TemplateFunctionOptions = {}
+): void {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new Error(`Invalid template function name "${name}"`)
+  }
+  if (typeof fn !== 'function') {
+    throw new Error(`Template function "${name}" must be a function`)
+  }
+  templateFunctions.set(name, { fn, argTypes: options.argTypes })
+}
+
+/**
+ * Register several template functions, given as functions or definitions with argTypes
+ */
+export function registerTemplateFunctions(functions: TemplateFunctionMap): void {
+  for (const [name, definition] of Object.entries(functions)) {
+    if (typeof definition === 'function') {
+      registerTemplateFunction(name, definition)
+    } else {
+      registerTemplateFunction(name, definition.fn, definition)
+    }
+  }
+}
+
+/**
+ * Remove a template function
+ */
+export function unregisterTemplateFunction(name: string): boolean {
+  return templateFunctions.delete(name)
+}
+
+/**
+ * Get a registered template function
+ */
+export function getTemplateFunction(name: string): TemplateFunctionDefinition | undefined {
+  return templateFunctions.get(name)
+}
+
+/**
+ * Partials registered in code; partials in the config's `templates.partials` take precedence
+ */
+const templatePartials = new Map<string, string>()
+
+/**
+ * A parsed template: text, substitutions, partials and blocks
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; expression: string; source: string; position: number }
+  | { type: 'partial'; name: string; source: string; position: number }
+  | TemplateBlock
+
+interface TemplateBlock {
+  type: 'if' | 'unless' | 'each'
+  path: string
+  source: string
+  position: number
+  children: TemplateNode[]
+  // Rendered after {{else}}: when the condition fails or the list is empty
+  otherwise: TemplateNode[]
+}
+
+/**
+ * The array item being rendered by {{#each}}
+ */
+interface TemplateScope {
+  item: any
+  index: number
+  length: number
+  parent?: TemplateScope
+  // Iterating visitor input
+  untrusted?: boolean
+}
+
+interface RenderState {
+  context: TemplateContext
+  pattern: keyof typeof TEMPLATE_PATTERNS
+  // Partials being rendered, outermost first
+  partials: string[]
+  // Unresolved variables, unknown functions and partials, and templates that failed to render
+  issues: string[]
+  // Applied to every substituted value unless |raw or |escape is used
+  escaping: TemplateEscaping
+}
+
+const BLOCK_HELPERS = ['if', 'unless', 'each']
+
+/**
+ * Register a partial that templates can include with {{> name}}
+ */
+export function registerTemplatePartial(name: string, template: string): void {
+  templatePartials.set(name, template)
+}
+
+/**
+ * Get all partials registered in code
+ */
+export function getTemplatePartials(): Record<string, string> {
+  return Object.fromEntries(templatePartials)
 }
 
 /**
@@ -80,51 +303,155 @@ function getNestedValue(obj: any, path: string): any {
 }
 
 /**
- * Parse template variable with optional function calls
- * Supports: variable, variable.property, variable|function, variable.property|function:arg
+ * Look up a value in the config, runtime, custom variables or environment
  */
-function parseTemplateVariable(
-  variable: string,
-  context: TemplateContext
-): string {
-  const [path, ...functions] = variable.trim().split('|')
-  
-  // Get base value
-  let value: any
-  
+function resolveValue(path: string, context: TemplateContext): any {
   // Check different contexts for the variable
   if (path.startsWith('env.')) {
-    value = context.env[path.substring(4)]
+    return context.env[path.substring(4)]
   } else if (path.startsWith('runtime.')) {
-    value = getNestedValue(context.runtime, path.substring(8))
+    return getNestedValue(context.runtime, path.substring(8))
   } else if (path.startsWith('custom.')) {
-    value = getNestedValue(context.custom, path.substring(7))
-  } else {
-    // Try config first, then custom, then env
-    value = getNestedValue(context.config, path) ??
-            getNestedValue(context.custom, path) ??
-            context.env[path]
+    return getNestedValue(context.custom, path.substring(7))
+  }
+  
+  // Try config first, then custom, then env
+  return getNestedValue(context.config, path) ??
+         getNestedValue(context.custom, path) ??
+         context.env[path]
+}
+
+/**
+ * Look up a value, giving the items of enclosing {{#each}} blocks precedence
+ */
+function lookupValue(path: string, context: TemplateContext, scope?: TemplateScope): any {
+  if (scope) {
+    if (path === 'this') return scope.item
+    if (path.startsWith('this.')) return getNestedValue(scope.item, path.substring(5))
+    if (path === '@index') return scope.index
+    if (path === '@first') return scope.index === 0
+    if (path === '@last') return scope.index === scope.length - 1
+    
+    const [key] = path.split(/[.[]/)
+    for (let current: TemplateScope | undefined = scope; current; current = current.parent) {
+      if (current.item && typeof current.item === 'object' && key in current.item) {
+        return getNestedValue(current.item, path)
+      }
+    }
+  }
+  
+  return resolveValue(path, context)
+}
+
+/**
+ * Split on a separator that is not inside quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let quote: string | null = null
+  let start = 0
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i))
+      start = i + separator.length
+      i += separator.length - 1
+    }
+  }
+  
+  parts.push(text.slice(start))
+  return parts
+}
+
+function isQuoted(text: string): boolean {
+  return /^(["'])[\s\S]*\1$/.test(text)
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+/**
+ * Parse a template expression into alternatives separated by `??`, each an
+ * operand (a path or a quoted string) followed by function calls
+ */
+function parseExpression(expression: string): Array<{ operand: string; functions: string[] }> {
+  return splitOutsideQuotes(expression, '??').map(alternative => {
+    const [operand, ...functions] = splitOutsideQuotes(alternative, '|').map(part => part.trim())
+    return { operand, functions }
+  })
+}
+
+/**
+ * Split a function call into its name and arguments; quoted arguments may contain ":"
+ */
+function parseFunctionCall(func: string): { name: string; args: string[] } {
+  const [name, ...args] = splitOutsideQuotes(func, ':')
+  return {
+    name: name.trim(),
+    args: args.map(arg => isQuoted(arg) ? arg.slice(1, -1) : arg),
   }
+}
+
+/**
+ * Convert an argument to its declared type
+ */
+function coerceArgument(arg: string, spec?: TemplateArgSpec): any {
+  const type = spec?.replace('?', '')
+  if (type === 'string') return arg
+  if (type === 'boolean') return arg === 'true'
+  
+  // Try to parse numeric arguments
+  const num = Number(arg)
+  return type === 'number' || !isNaN(num) ? num : arg
+}
+
+/**
+ * Check the arguments of a call against the function's argTypes
+ */
+function validateFunctionArguments(name: string, args: string[], argTypes?: TemplateArgSpec[]): string[] {
+  if (!argTypes) return []
   
+  const required = argTypes.filter(spec => !spec.endsWith('?')).length
+  if (args.length < required || args.length > argTypes.length) {
+    const expected = required === argTypes.length ? `${required}` : `${required}-${argTypes.length}`
+    return [`Template function ${name} expects ${expected} argument(s), got ${args.length}`]
+  }
+  
+  return args.flatMap((arg, index) => {
+    const type = argTypes[index].replace('?', '')
+    if (type === 'number' && (arg.trim() === '' || isNaN(Number(arg)))) {
+      return [`Argument ${index + 1} of ${name} must be a number, got "${arg}"`]
+    }
+    if (type === 'boolean' && arg !== 'true' && arg !== 'false') {
+      return [`Argument ${index + 1} of ${name} must be true or false, got "${arg}"`]
+    }
+    return []
+  })
+}
+
+/**
+ * Apply template functions to a value
+ */
+function applyTemplateFunctions(value: any, functions: string[], issues: string[]): string {
   // Convert to string
   let result = value !== undefined && value !== null ? String(value) : ''
   
   // Apply functions
   for (const func of functions) {
-    const [funcName, ...args] = func.split(':')
-    const templateFunc = TEMPLATE_FUNCTIONS[funcName as keyof typeof TEMPLATE_FUNCTIONS]
+    const { name, args } = parseFunctionCall(func)
+    const definition = templateFunctions.get(name)
     
-    if (templateFunc) {
-      if (args.length > 0) {
-        // Pass additional arguments to function
-        result = templateFunc(result, ...args.map(arg => {
-          // Try to parse numeric arguments
-          const num = Number(arg)
-          return isNaN(num) ? arg : num
-        }))
-      } else {
-        result = templateFunc(result)
-      }
+    if (definition) {
+      const output = definition.fn(result, ...args.map((arg, index) => coerceArgument(arg, definition.argTypes?.[index])))
+      result = output !== undefined && output !== null ? String(output) : ''
+    } else {
+      issues.push(`Unknown template function "${name}"`)
     }
   }
   
@@ -132,24 +459,245 @@ function parseTemplateVariable(
 }
 
 /**
- * Replace template variables in a string
+ * Whether a path reads visitor input listed in the context's `untrusted` paths
+ */
+function isUntrusted(path: string, context: TemplateContext): boolean {
+  return !!context.untrusted?.some(prefix =>
+    path === prefix || path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`)
+  )
+}
+
+/**
+ * Evaluate a template expression
+ * Supports: variable, variable.property, variable|function, variable.property|function:arg,
+ * and defaults for missing or empty values: variable ?? "default", variable ?? other.variable
+ */
+function evaluateExpression(
+  expression: string,
+  state: RenderState,
+  scope?: TemplateScope
+): string {
+  const alternatives = parseExpression(expression)
+  
+  for (let i = 0; i < alternatives.length; i++) {
+    const { operand, functions } = alternatives[i]
+    const value = isQuoted(operand) ? operand.slice(1, -1) : lookupValue(operand, state.context, scope)
+    
+    if (isMissing(value) && i < alternatives.length - 1) continue
+    if (value === undefined) {
+      state.issues.push(`Unresolved template variable "${alternatives.map(alternative => alternative.operand).join(' ?? ')}"`)
+    }
+    
+    const result = applyTemplateFunctions(value, functions, state.issues)
+    // Quoted defaults are part of the template, like the text around them
+    if (isQuoted(operand)) return result
+    
+    const calls = functions.map(parseFunctionCall)
+    if (scope?.untrusted || isUntrusted(operand, state.context)) {
+      // Visitor input cannot opt out with |raw or |escape:none
+      const escaped = calls.some(call => call.name === 'escape' && call.args[0] !== 'none')
+      return escaped ? result : escapeTemplateValue(result, state.escaping === 'none' ? 'html' : state.escaping)
+    }
+    const explicit = calls.some(call => ESCAPING_FUNCTIONS.includes(call.name))
+    return explicit ? result : escapeTemplateValue(result, state.escaping)
+  }
+  
+  return ''
+}
+
+/**
+ * Parse a template into nodes, matching {{#if}}, {{#unless}} and {{#each}}
+ * blocks with their {{else}} and closing tags
+ */
+function parseTemplate(
+  template: string,
+  pattern: keyof typeof TEMPLATE_PATTERNS
+): TemplateNode[] {
+  // A fresh regex, so nested parsing of partials does not share lastIndex
+  const regex = new RegExp(TEMPLATE_PATTERNS[pattern].source, 'g')
+  const root: TemplateNode[] = []
+  const open: Array<{ block: TemplateBlock; inElse: boolean }> = []
+  let lastIndex = 0
+  
+  const current = (): TemplateNode[] => {
+    const top = open[open.length - 1]
+    if (!top) return root
+    return top.inElse ? top.block.otherwise : top.block.children
+  }
+  
+  let match
+  while ((match = regex.exec(template)) !== null) {
+    const [source, content] = match
+    const tag = content.trim()
+    const position = match.index
+    
+    if (position > lastIndex) {
+      current().push({ type: 'text', text: template.slice(lastIndex, position) })
+    }
+    lastIndex = position + source.length
+    
+    if (tag.startsWith('#')) {
+      const [helper, ...args] = tag.substring(1).trim().split(/\s+/)
+      const path = args.join(' ')
+      if (!BLOCK_HELPERS.includes(helper)) {
+        throw new Error(`Unknown block helper "#${helper}" at position ${position}`)
+      }
+      if (!path) {
+        throw new Error(`Block "#${helper}" at position ${position} needs a path`)
+      }
+      
+      const block: TemplateBlock = {
+        type: helper as TemplateBlock['type'],
+        path,
+        source,
+        position,
+        children: [],
+        otherwise: [],
+      }
+      current().push(block)
+      open.push({ block, inElse: false })
+    } else if (tag.startsWith('/')) {
+      const helper = tag.substring(1).trim()
+      const top = open.pop()
+      if (!top) {
+        throw new Error(`Unexpected closing "/${helper}" at position ${position}`)
+      }
+      if (top.block.type !== helper) {
+        throw new Error(`Closing "/${helper}" at position ${position} does not match "#${top.block.type}" at position ${top.block.position}`)
+      }
+    } else if (tag === 'else') {
+      const top = open[open.length - 1]
+      if (!top || top.inElse) {
+        throw new Error(`Unexpected "else" at position ${position}`)
+      }
+      top.inElse = true
+    } else if (tag.startsWith('>')) {
+      const name = tag.substring(1).trim()
+      if (!name) {
+        throw new Error(`Partial at position ${position} needs a name`)
+      }
+      current().push({ type: 'partial', name, source, position })
+    } else {
+      current().push({ type: 'variable', expression: tag, source, position })
+    }
+  }
+  
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', text: template.slice(lastIndex) })
+  }
+  
+  const unclosed = open.pop()
+  if (unclosed) {
+    throw new Error(`Unclosed block "#${unclosed.block.type}" at position ${unclosed.block.position}`)
+  }
+  
+  return root
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function renderNodes(nodes: TemplateNode[], state: RenderState, scope?: TemplateScope): string {
+  return nodes.map(node => renderNode(node, state, scope)).join('')
+}
+
+function renderNode(node: TemplateNode, state: RenderState, scope?: TemplateScope): string {
+  switch (node.type) {
+    case 'text':
+      return node.text
+    
+    case 'variable':
+      try {
+        return evaluateExpression(node.expression, state, scope)
+      } catch (error) {
+        state.issues.push(`Template variable "${node.expression}" failed: ${errorMessage(error)}`)
+        return node.source // Return original if replacement fails
+      }
+    
+    case 'partial':
+      return renderPartial(node, state, scope)
+    
+    case 'each': {
+      const items = lookupValue(node.path, state.context, scope)
+      if (!Array.isArray(items) || items.length === 0) {
+        return renderNodes(node.otherwise, state, scope)
+      }
+      const untrusted = scope?.untrusted || isUntrusted(node.path, state.context)
+      return items.map((item, index) =>
+        renderNodes(node.children, state, { item, index, length: items.length, parent: scope, untrusted })
+      ).join('')
+    }
+    
+    default: {
+      const value = lookupValue(node.path, state.context, scope)
+      // Empty lists are false, so {{#if portfolio.projects}} means "has projects"
+      const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value)
+      return renderNodes(truthy === (node.type === 'if') ? node.children : node.otherwise, state, scope)
+    }
+  }
+}
+
+/**
+ * Render a partial in the scope it is included from
+ */
+function renderPartial(
+  node: { name: string; source: string },
+  state: RenderState,
+  scope?: TemplateScope
+): string {
+  const partial = state.context.partials?.[node.name] ?? templatePartials.get(node.name)
+  
+  if (partial === undefined) {
+    state.issues.push(`Unknown template partial "${node.name}"`)
+    return node.source
+  }
+  
+  if (state.partials.includes(node.name)) {
+    state.issues.push(`Template partial "${node.name}" includes itself: ${[...state.partials, node.name].join(' > ')}`)
+    return node.source
+  }
+  
+  try {
+    const nodes = parseTemplate(partial, state.pattern)
+    return renderNodes(nodes, { ...state, partials: [...state.partials, node.name] }, scope)
+  } catch (error) {
+    state.issues.push(`Template partial "${node.name}" failed: ${errorMessage(error)}`)
+    return node.source
+  }
+}
+
+/**
+ * Replace template variables in a string, escaping substituted values
  */
 export function replaceTemplateVariables(
   template: string,
   context: TemplateContext,
-  pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC'
+  pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC',
+  escaping: TemplateEscaping = 'none'
+): string {
+  return renderTemplate(template, context, pattern, [], escaping)
+}
+
+/**
+ * Render a template, collecting references that could not be resolved
+ */
+function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  pattern: keyof typeof TEMPLATE_PATTERNS,
+  issues: string[],
+  escaping: TemplateEscaping = 'none'
 ): string {
-  const regex = TEMPLATE_PATTERNS[pattern]
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(template, pattern)
+  } catch (error) {
+    issues.push(`Template parsing failed: ${errorMessage(error)}`)
+    return template // Return original if the blocks do not match
+  }
   
-  return template.replace(regex, (match, variable) => {
-    try {
-      const result = parseTemplateVariable(variable, context)
-      return result
-    } catch (error) {
-      console.warn(`Template variable replacement failed for "${variable}":`, error)
-      return match // Return original if replacement fails
-    }
-  })
+  return renderNodes(nodes, { context, pattern, partials: [], issues, escaping })
 }
 
 /**
@@ -198,6 +746,10 @@ export function createTemplateContext(
       timestamp: Date.now(),
       ...customVars,
     },
+    partials: {
+      ...getTemplatePartials(),
+      ...config.templates?.partials,
+    },
   }
 }
 
@@ -209,8 +761,20 @@ export function processConfigurationTemplates(
   customVars: Record<string, any> = {},
   pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC'
 ): ArchitectResumeConfig {
-  const context = createTemplateContext(config, customVars)
-  return replaceTemplateVariablesInObject(config, context, pattern)
+  return resolveConfigurationTemplates(config, customVars, pattern).config
+}
+
+/**
+ * Visit every node of a parsed template, including block contents
+ */
+function walkTemplate(nodes: TemplateNode[], visit: (node: TemplateNode) => void): void {
+  for (const node of nodes) {
+    visit(node)
+    if (node.type === 'if' || node.type === 'unless' || node.type === 'each') {
+      walkTemplate(node.children, visit)
+      walkTemplate(node.otherwise, visit)
+    }
+  }
 }
 
 /**
@@ -221,15 +785,24 @@ export function validateTemplateString(
   pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC'
 ): { isValid: boolean; errors: string[] } {
   const errors: string[] = []
-  const regex = TEMPLATE_PATTERNS[pattern]
   
-  let match
-  while ((match = regex.exec(template)) !== null) {
-    const variable = match[1].trim()
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(template, pattern)
+  } catch (error) {
+    return {
+      isValid: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    }
+  }
+  
+  walkTemplate(nodes, node => {
+    if (node.type !== 'variable') return
+    const variable = node.expression
     
     if (!variable) {
-      errors.push(`Empty template variable at position ${match.index}`)
-      continue
+      errors.push(`Empty template variable at position ${node.position}`)
+      return
     }
     
     // Check for invalid characters
@@ -237,18 +810,26 @@ export function validateTemplateString(
       errors.push(`Nested template variables not allowed: ${variable}`)
     }
     
-    // Validate function calls
-    const [, ...functions] = variable.split('|')
-    for (const func of functions) {
-      const [funcName] = func.split(':')
-      if (!(funcName in TEMPLATE_FUNCTIONS)) {
-        errors.push(`Unknown template function: ${funcName}`)
+    for (const { operand, functions } of parseExpression(variable)) {
+      if (!operand) {
+        errors.push(`Missing value in default expression: ${variable}`)
+      }
+      
+      // Validate function calls
+      for (const func of functions) {
+        const { name, args } = parseFunctionCall(func)
+        const definition = templateFunctions.get(name)
+        if (!definition) {
+          errors.push(`Unknown template function: ${name}`)
+        } else {
+          errors.push(...validateFunctionArguments(name, args, definition.argTypes))
+        }
+        if (name === 'escape' && args[0] !== undefined && !TEMPLATE_ESCAPINGS.includes(args[0] as TemplateEscaping)) {
+          errors.push(`Unknown escaping "${args[0]}", expected one of: ${TEMPLATE_ESCAPINGS.join(', ')}`)
+        }
       }
     }
-  }
-  
-  // Reset regex
-  regex.lastIndex = 0
+  })
   
   return {
     isValid: errors.length === 0,
@@ -257,24 +838,250 @@ export function validateTemplateString(
 }
 
 /**
- * Extract template variables from a string
+ * Extract the paths a template reads, including block conditions, lists and defaults
+ *
+ * Inside {{#each}}, `this` and `@index` style references are left out; other
+ * names are returned as written since they may be fields of the item.
  */
 export function extractTemplateVariables(
   template: string,
   pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC'
 ): string[] {
-  const variables: string[] = []
-  const regex = TEMPLATE_PATTERNS[pattern]
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(template, pattern)
+  } catch {
+    return []
+  }
   
-  let match
-  while ((match = regex.exec(template)) !== null) {
-    variables.push(match[1].trim())
+  // Remove duplicates and references to the current {{#each}} item
+  return [...new Set(collectReferences(nodes, {}, pattern))].filter(variable =>
+    variable !== 'this' && !variable.startsWith('this.') && !variable.startsWith('@')
+  )
+}
+
+/**
+ * Paths read by parsed template nodes, following partials
+ */
+function collectReferences(
+  nodes: TemplateNode[],
+  partials: Record<string, string>,
+  pattern: keyof typeof TEMPLATE_PATTERNS,
+  included: string[] = []
+): string[] {
+  const references: string[] = []
+  
+  walkTemplate(nodes, node => {
+    if (node.type === 'variable') {
+      for (const { operand } of parseExpression(node.expression)) {
+        if (operand && !isQuoted(operand)) references.push(operand)
+      }
+    } else if (node.type === 'partial') {
+      const partial = partials[node.name] ?? templatePartials.get(node.name)
+      if (partial === undefined || included.includes(node.name)) return
+      try {
+        references.push(...collectReferences(parseTemplate(partial, pattern), partials, pattern, [...included, node.name]))
+      } catch {
+        // Reported when the partial is rendered
+      }
+    } else if (node.type !== 'text') {
+      references.push(node.path)
+    }
+  })
+  
+  return references
+}
+
+export interface TemplateGraph {
+  // Each templated config path and the templated paths it reads
+  dependencies: Record<string, string[]>
+  // Templated paths in resolution order, dependencies first
+  order: string[]
+  // Reference chains that lead back to where they started, e.g. ['a', 'b', 'a']
+  cycles: string[][]
+}
+
+export interface TemplateResolution {
+  config: ArchitectResumeConfig
+  graph: TemplateGraph
+  errors: string[]
+  // Unresolved references and render failures by config path, e.g. 'seo.title: Unresolved template variable "personal.nmae"'
+  warnings: string[]
+}
+
+export interface TemplateResolutionOptions {
+  // Report unresolved variables, unknown functions and partials, and render failures as errors instead of warnings
+  strict?: boolean
+  // Escaping for the strings at each config path, e.g. getTemplateEscaping from the schema
+  escaping?: (path: string) => TemplateEscaping
+}
+
+/**
+ * Dot paths of every string containing a template, except partial definitions
+ */
+function collectTemplatedStrings(
+  value: any,
+  pattern: keyof typeof TEMPLATE_PATTERNS,
+  path: string[] = [],
+  result = new Map<string, string>()
+): Map<string, string> {
+  if (typeof value === 'string') {
+    if (new RegExp(TEMPLATE_PATTERNS[pattern].source).test(value)) {
+      result.set(path.join('.'), value)
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectTemplatedStrings(item, pattern, [...path, String(index)], result))
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      // Partials are expanded where they are included, not where they are defined
+      if (path.length === 0 && key === 'templates') continue
+      collectTemplatedStrings(item, pattern, [...path, key], result)
+    }
   }
   
-  // Reset regex
-  regex.lastIndex = 0
+  return result
+}
+
+/**
+ * The config path a template reference reads, if it reads the config at all
+ */
+function toConfigReference(reference: string): string | undefined {
+  if (/^(env|runtime|custom)\./.test(reference)) return undefined
+  if (reference === 'this' || reference.startsWith('this.') || reference.startsWith('@')) return undefined
+  return reference.replace(/\[(\d+)\]/g, '.$1')
+}
+
+/**
+ * Count the reads of a path that have a fallback, as in {{personal.name ?? "Jane"}}
+ */
+function countFallbackReads(nodes: TemplateNode[], path: string): number {
+  let count = 0
+  
+  walkTemplate(nodes, node => {
+    if (node.type !== 'variable') return
+    const alternatives = parseExpression(node.expression)
+    if (alternatives.length < 2) return
+    count += alternatives.filter(({ operand }) =>
+      operand && !isQuoted(operand) && toConfigReference(operand) === path
+    ).length
+  })
+  
+  return count
+}
+
+/**
+ * Build the dependency graph of the templated strings in a configuration
+ *
+ * A string depends on every templated string at, inside or above a path it
+ * reads, so {{#each portfolio.projects}} waits for templates in the projects.
+ * A string that reads its own path only with a fallback, such as
+ * {{personal.name ?? "Jane"}} at personal.name, does not depend on itself.
+ */
+export function buildTemplateGraph(
+  config: ArchitectResumeConfig,
+  pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC'
+): TemplateGraph {
+  const partials = { ...getTemplatePartials(), ...config.templates?.partials }
+  const templated = collectTemplatedStrings(config, pattern)
+  const paths = Array.from(templated.keys())
+  const dependencies: Record<string, string[]> = {}
+  
+  templated.forEach((template, path) => {
+    let nodes: TemplateNode[] = []
+    let references: string[] = []
+    try {
+      nodes = parseTemplate(template, pattern)
+      references = collectReferences(nodes, partials, pattern)
+    } catch {
+      // Unbalanced blocks are reported when the string is rendered
+    }
+    
+    let targets = references.map(toConfigReference).filter((target): target is string => !!target)
+    const ownReads = targets.filter(target => target === path).length
+    if (ownReads > 0 && ownReads === countFallbackReads(nodes, path)) {
+      targets = targets.filter(target => target !== path)
+    }
+    dependencies[path] = paths.filter(other => targets.some(target =>
+      other === target || other.startsWith(`${target}.`) || target.startsWith(`${other}.`)
+    ))
+  })
+  
+  // Depth-first search; a path met again while it is still being visited closes a cycle
+  const order: string[] = []
+  const cycles: string[][] = []
+  const seenCycles = new Set<string>()
+  const state = new Map<string, 'visiting' | 'done'>()
+  const stack: string[] = []
+  
+  const visit = (path: string) => {
+    if (state.get(path) === 'done') return
+    if (state.get(path) === 'visiting') {
+      const cycle = [...stack.slice(stack.indexOf(path)), path]
+      const key = cycle.slice(1).sort().join('\0')
+      if (!seenCycles.has(key)) {
+        seenCycles.add(key)
+        cycles.push(cycle)
+      }
+      return
+    }
+    
+    state.set(path, 'visiting')
+    stack.push(path)
+    dependencies[path].forEach(visit)
+    stack.pop()
+    state.set(path, 'done')
+    order.push(path)
+  }
+  
+  paths.forEach(visit)
+  
+  return { dependencies, order, cycles }
+}
+
+/**
+ * Resolve the templates of a configuration in dependency order
+ *
+ * Every string is rendered after the strings it reads, so the result does not
+ * depend on key order. Strings in a cycle are left unresolved and reported.
+ * A string reads its own path as unset, so {{personal.name ?? "Jane"}} falls back.
+ * References that cannot be resolved and templates that fail to render are
+ * warnings, or errors in strict mode.
+ */
+export function resolveConfigurationTemplates(
+  config: ArchitectResumeConfig,
+  customVars: Record<string, any> = {},
+  pattern: keyof typeof TEMPLATE_PATTERNS = 'BASIC',
+  options: TemplateResolutionOptions = {}
+): TemplateResolution {
+  const graph = buildTemplateGraph(config, pattern)
+  const cyclic = new Set(graph.cycles.flat())
+  const errors = graph.cycles.map(cycle => `Template cycle: ${cycle.join(' -> ')}`)
+  const warnings: string[] = []
+  
+  // Rendered strings are written back, so later strings read resolved values
+  const resolved = JSON.parse(JSON.stringify(config))
+  const context = createTemplateContext(resolved, customVars)
+  
+  for (const path of graph.order) {
+    if (cyclic.has(path)) continue
+    
+    const keys = path.split('.')
+    const parent = keys.slice(0, -1).reduce((current, key) => current[key], resolved)
+    const key = keys[keys.length - 1]
+    const issues: string[] = []
+    const template = parent[key]
+    parent[key] = undefined
+    parent[key] = renderTemplate(template, context, pattern, issues, options.escaping?.(path))
+    
+    const messages = [...new Set(issues)].map(issue => `${path}: ${issue}`)
+    if (options.strict) {
+      errors.push(...messages)
+    } else {
+      warnings.push(...messages)
+    }
+  }
   
-  return [...new Set(variables)] // Remove duplicates
+  return { config: resolved, graph, errors, warnings }
 }
 
 /**
@@ -336,18 +1143,22 @@ export const TemplateUtils = {
   
   /**
    * Process email templates
+   *
+   * Values are HTML-escaped by default. Form data comes from visitors, so it
+   * is always escaped, even with |raw or an escaping of 'none'.
    */
   processEmailTemplate(template: string, context: TemplateContext & { 
     form?: Record<string, any> 
-  }) {
+  }, escaping: TemplateEscaping = 'html') {
     const emailContext = {
       ...context,
       custom: {
         ...context.custom,
         form: context.form || {},
       },
+      untrusted: [...(context.untrusted || []), 'form', 'custom.form'],
     }
-    return replaceTemplateVariables(template, emailContext)
+    return replaceTemplateVariables(template, emailContext, 'BASIC', escaping)
   },
   
   /**
@@ -0,0 +1,112 @@
+/**
+ * TypeScript Config Transpiler
+ * Transpiles and evaluates TypeScript configuration files in-process
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { createRequire } from 'module'
+import path from 'path'
+import { ConfigParseError } from './formats'
+
+type TypeScriptCompiler = typeof import('typescript')
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts', '.tsx']
+
+interface EvaluatedModule {
+  exports: any
+}
+
+/**
+ * Load the TypeScript compiler on demand
+ */
+async function loadCompiler(): Promise<TypeScriptCompiler> {
+  try {
+    const ts = await import('typescript')
+    return (ts as any).default || ts
+  } catch {
+    throw new Error('TypeScript config files require the "typescript" package to be installed')
+  }
+}
+
+/**
+ * Resolve a relative or "@/" import to a TypeScript source file
+ */
+function resolveTypeScriptImport(specifier: string, fromFile: string): string | undefined {
+  let base: string
+  
+  if (specifier.startsWith('@/')) {
+    base = path.join(process.cwd(), specifier.substring(2))
+  } else if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    base = path.resolve(path.dirname(fromFile), specifier)
+  } else {
+    return undefined
+  }
+  
+  const candidates = [
+    ...(TYPESCRIPT_EXTENSIONS.includes(path.extname(base)) ? [base] : []),
+    ...TYPESCRIPT_EXTENSIONS.map(extension => `${base}${extension}`),
+    ...TYPESCRIPT_EXTENSIONS.map(extension => path.join(base, `index${extension}`)),
+  ]
+  
+  return candidates.find(candidate => existsSync(candidate))
+}
+
+/**
+ * Transpile a TypeScript file to CommonJS, reporting syntax errors with location
+ */
+function transpile(ts: TypeScriptCompiler, filePath: string): string {
+  const source = readFileSync(filePath, 'utf-8')
+  const output = ts.transpileModule(source, {
+    fileName: filePath,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  })
+  
+  const diagnostic = output.diagnostics?.find(
+    item => item.category === ts.DiagnosticCategory.Error
+  )
+  if (diagnostic) {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+    const { line, character } = diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 }
+    throw new ConfigParseError(filePath, line + 1, character + 1, message)
+  }
+  
+  return output.outputText
+}
+
+/**
+ * Transpile and evaluate a TypeScript module, following relative TypeScript imports
+ */
+export async function loadTypeScriptModule(filePath: string): Promise<any> {
+  const ts = await loadCompiler()
+  const modules = new Map<string, EvaluatedModule>()
+  
+  function evaluate(file: string): any {
+    const cached = modules.get(file)
+    if (cached) return cached.exports
+    
+    const code = transpile(ts, file)
+    const evaluated: EvaluatedModule = { exports: {} }
+    modules.set(file, evaluated)
+    
+    const nativeRequire = createRequire(file)
+    const localRequire = (specifier: string) => {
+      const resolved = resolveTypeScriptImport(specifier, file)
+      return resolved ? evaluate(resolved) : nativeRequire(specifier)
+    }
+    
+    const factory = new Function('exports', 'require', 'module', '__filename', '__dirname', code)
+    factory(evaluated.exports, localRequire, evaluated, file, path.dirname(file))
+    
+    return evaluated.exports
+  }
+  
+  return evaluate(filePath)
+}
\ No newline at end of file
@@ -116,6 +116,7 @@ export interface ContactConfig {
   enabled: boolean
   showForm: boolean
   formEndpoint?: string
+  formApiKey?: string
   showEmail: boolean
   showPhone: boolean
   showSocial: boolean
@@ -131,6 +132,7 @@ export interface ChatbotConfig {
   welcomeMessage: string
   responses: Record<string, string[]>
   apiEndpoint?: string
+  apiKey?: string
   model?: string
 }
 
@@ -165,6 +167,9 @@ export interface FeatureFlags {
 }
 
 export interface ArchitectResumeConfig {
+  // Schema version
+  schemaVersion: number
+  
   // Core configuration
   personal: PersonalInfo
   social: SocialLinks
@@ -213,6 +218,11 @@ export interface ArchitectResumeConfig {
     minifyCSS: boolean
     minifyJS: boolean
   }
+  
+  // Template configuration
+  templates?: {
+    partials: Record<string, string>
+  }
 }
 
 // Environment variable mappings
@@ -5,50 +5,179 @@
 
 import { promises as fs } from 'fs'
 import path from 'path'
-import { ArchitectResumeConfig, validateConfig } from './schema'
-import { loadConfiguration, ConfigSource } from './loader'
-import { replaceTemplateVariables, createTemplateContext } from './template'
+import { ArchitectResumeConfig, validateConfig, getTemplateEscaping, CURRENT_SCHEMA_VERSION } from './schema'
+import { loadConfiguration, loadSemanticRuleContext, ConfigSource } from './loader'
+import { resolveConfigurationTemplates, extractTemplateVariables, TemplateGraph } from './template'
+import { ConfigParseError } from './formats'
+import { parseConfigFile, stringifyConfigFile } from './parsers'
+import { explainPath, describeSource } from './provenance'
+import { generateConfigJsonSchema } from './json-schema'
+import { migrateConfig, needsMigration, MigrationResult } from './migrations'
+import { validateSemantics, SemanticRuleContext } from './rules'
+import { findSecretsInOutput, SecretLeak, STATIC_OUTPUT_DIRS } from './secrets'
+import { redactSecrets } from './redact'
+import { createJsonPatch, JsonPatch } from './patch'
+import {
+  AUDIT_LOG_PATH,
+  readAuditLog,
+  replayAuditLog,
+  listConfigHistory,
+  getConfigFileSnapshot,
+  readConfigFileSnapshot,
+} from './audit'
+import {
+  encryptConfig,
+  decryptConfig,
+  readEncryptedConfigFile,
+  loadEncryptionKey,
+  writeEncryptionKey,
+  generateEncryptionKey,
+  getKeyId,
+  maskEncryptedValues,
+  ENCRYPTED_CONFIG_PATH,
+  ENCRYPTION_KEY_PATH,
+  ENCRYPTION_KEY_ENV,
+  MissingEncryptionKeyError,
+} from './encryption'
+import {
+  ConfigDiagnostic,
+  diagnoseUnknownKeys,
+  locateDiagnostics,
+  createCodeFrame,
+  formatDiagnostic,
+} from './diagnostics'
 
 /**
  * Validate configuration file
+ *
+ * Semantic rules check against the given site content, or the app's when none is given.
  */
-export async function validateConfigFile(filePath: string): Promise<{
+export async function validateConfigFile(
+  filePath: string,
+  ruleContext?: SemanticRuleContext
+): Promise<{
   isValid: boolean
   errors: string[]
   warnings: string[]
+  diagnostics: ConfigDiagnostic[]
   config?: ArchitectResumeConfig
 }> {
+  let content = ''
+  
   try {
-    const content = await fs.readFile(filePath, 'utf-8')
-    const rawConfig = JSON.parse(content)
+    content = await fs.readFile(filePath, 'utf-8')
+    let rawConfig = parseConfigFile(content, filePath)
+    const diagnostics: ConfigDiagnostic[] = []
+    
+    if (needsMigration(rawConfig)) {
+      const migration = migrateConfig(rawConfig)
+      rawConfig = migration.config
+      const messages = [
+        `File uses schema v${migration.fromVersion}; run the migrate command to upgrade it to v${migration.toVersion}`,
+        ...migration.warnings,
+      ]
+      messages.forEach(message => {
+        diagnostics.push({ severity: 'warning', path: '', message, code: 'migration' })
+      })
+    }
     
     const validation = validateConfig(rawConfig)
+    validation.error?.issues.forEach(issue => {
+      diagnostics.push({
+        severity: 'error',
+        path: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code,
+      })
+    })
+    diagnostics.push(...diagnoseUnknownKeys(rawConfig))
     
-    return {
-      isValid: validation.success,
-      errors: validation.error?.issues.map(issue => 
-        `${issue.path.join('.')}: ${issue.message}`
-      ) || [],
-      warnings: [],
-      config: validation.data,
+    if (validation.data) {
+      const semantics = validateSemantics(validation.data, ruleContext || await loadSemanticRuleContext())
+      for (const issue of [...semantics.errors, ...semantics.warnings]) {
+        diagnostics.push({
+          severity: issue.severity,
+          path: issue.path,
+          message: issue.message,
+          code: issue.rule,
+        })
+      }
     }
+    
+    return summarizeDiagnostics(locateDiagnostics(diagnostics, content, filePath), validation.data)
   } catch (error) {
-    return {
-      isValid: false,
-      errors: [`Failed to validate config file: ${error}`],
-      warnings: [],
+    if (error instanceof ConfigParseError) {
+      const position = { line: error.line, column: error.column }
+      return summarizeDiagnostics([{
+        severity: 'error',
+        path: '',
+        message: error.reason,
+        code: 'parse-error',
+        file: filePath,
+        ...position,
+        frame: createCodeFrame(content, position),
+      }])
     }
+    
+    return summarizeDiagnostics([{
+      severity: 'error',
+      path: '',
+      message: `Failed to validate config file: ${error}`,
+      code: 'read-error',
+      file: filePath,
+    }])
+  }
+}
+
+function summarizeDiagnostics(diagnostics: ConfigDiagnostic[], config?: ArchitectResumeConfig) {
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+  
+  return {
+    isValid: errors.length === 0,
+    errors: errors.map(formatDiagnostic),
+    warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').map(formatDiagnostic),
+    diagnostics,
+    config,
   }
 }
 
+/**
+ * Default location of the generated JSON Schema
+ */
+export const CONFIG_JSON_SCHEMA_PATH = 'config/architect-resume.schema.json'
+
+/**
+ * Write the configuration JSON Schema for editor validation
+ */
+export async function writeConfigJsonSchema(
+  outputPath = CONFIG_JSON_SCHEMA_PATH
+): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  await fs.writeFile(
+    outputPath,
+    JSON.stringify(generateConfigJsonSchema(), null, 2),
+    'utf-8'
+  )
+}
+
 /**
  * Generate configuration template
  */
 export async function generateConfigTemplate(
   outputPath: string,
-  includeExamples = true
+  includeExamples = true,
+  schemaPath = CONFIG_JSON_SCHEMA_PATH
 ): Promise<void> {
-  const template: Partial<ArchitectResumeConfig> = {
+  // Relative reference so editors resolve the schema from the file's location
+  const schemaReference = path
+    .relative(path.dirname(path.resolve(outputPath)), path.resolve(schemaPath))
+    .split(path.sep)
+    .join('/')
+  
+  const template: Partial<ArchitectResumeConfig> & { $schema: string } = {
+    $schema: schemaReference.startsWith('.') ? schemaReference : `./${schemaReference}`,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    
     personal: {
       name: 'Your Name',
       title: 'Your Title',
@@ -151,45 +280,28 @@ export async function previewConfiguration(
   config: ArchitectResumeConfig
   processedConfig: ArchitectResumeConfig
   templateVariables: string[]
+  templateGraph: TemplateGraph
+  errors: string[]
+  // Unresolved references by config path
+  warnings: string[]
 }> {
   const loaded = await loadConfiguration(sources, {
     processTemplates: false,
     validateSchema: true,
   })
+  // Secret references are resolved even without templates; never render or print them
+  const config = redactSecrets(loaded.config, loaded.secrets)
   
-  const context = createTemplateContext(loaded.config)
-  const processedConfig = JSON.parse(JSON.stringify(loaded.config))
-  
-  // Process template variables
-  function processValue(obj: any, path: string[] = []): any {
-    if (typeof obj === 'string') {
-      return replaceTemplateVariables(obj, context)
-    } else if (Array.isArray(obj)) {
-      return obj.map((item, index) => processValue(item, [...path, index.toString()]))
-    } else if (obj && typeof obj === 'object') {
-      const result: any = {}
-      for (const [key, value] of Object.entries(obj)) {
-        result[key] = processValue(value, [...path, key])
-      }
-      return result
-    }
-    return obj
-  }
-  
-  const processed = processValue(processedConfig)
+  const resolution = resolveConfigurationTemplates(config, {}, 'BASIC', {
+    escaping: getTemplateEscaping,
+  })
   
   // Extract template variables
   const templateVariables: Set<string> = new Set()
   
   function extractVariables(obj: any): void {
     if (typeof obj === 'string') {
-      const matches = obj.match(/\{\{\s*([^}]+)\s*\}\}/g)
-      if (matches) {
-        matches.forEach(match => {
-          const variable = match.replace(/\{\{\s*|\s*\}\}/g, '')
-          templateVariables.add(variable)
-        })
-      }
+      extractTemplateVariables(obj).forEach(variable => templateVariables.add(variable))
     } else if (Array.isArray(obj)) {
       obj.forEach(extractVariables)
     } else if (obj && typeof obj === 'object') {
@@ -197,12 +309,15 @@ export async function previewConfiguration(
     }
   }
   
-  extractVariables(loaded.config)
+  extractVariables(config)
   
   return {
-    config: loaded.config,
-    processedConfig: processed,
+    config,
+    processedConfig: resolution.config,
     templateVariables: Array.from(templateVariables),
+    templateGraph: resolution.graph,
+    errors: resolution.errors,
+    warnings: resolution.warnings,
   }
 }
 
@@ -218,7 +333,7 @@ export async function mergeConfigFiles(
   for (const inputPath of inputPaths) {
     try {
       const content = await fs.readFile(inputPath, 'utf-8')
-      const config = JSON.parse(content)
+      const config = parseConfigFile(content, inputPath)
       configs.push(config)
     } catch (error) {
       console.warn(`Failed to load config from ${inputPath}:`, error)
@@ -277,7 +392,7 @@ export async function extractConfigFromComponents(
     
     console.log(`Analyzing components in ${componentsDir}...`)
     // Component analysis logic would go here
-    
+  
   } catch (error) {
     console.warn('Failed to extract config from components:', error)
   }
@@ -285,13 +400,7 @@ export async function extractConfigFromComponents(
   return extracted
 }
 
-/**
- * Configuration diff utility
- */
-export function diffConfigs(
-  oldConfig: ArchitectResumeConfig,
-  newConfig: ArchitectResumeConfig
-): {
+export interface ConfigDiff {
   added: string[]
   modified: string[]
   removed: string[]
@@ -301,17 +410,34 @@ export function diffConfigs(
     oldValue?: any
     newValue?: any
   }>
-} {
-  const changes = {
-    added: [] as string[],
-    modified: [] as string[],
-    removed: [] as string[],
-    details: [] as Array<{
-      path: string
-      type: 'added' | 'modified' | 'removed'
-      oldValue?: any
-      newValue?: any
-    }>,
+}
+
+/**
+ * Configuration diff utility
+ */
+export function diffConfigs(
+  oldConfig: ArchitectResumeConfig,
+  newConfig: ArchitectResumeConfig
+): ConfigDiff
+export function diffConfigs(
+  oldConfig: ArchitectResumeConfig,
+  newConfig: ArchitectResumeConfig,
+  options: { format: 'patch' }
+): JsonPatch
+export function diffConfigs(
+  oldConfig: ArchitectResumeConfig,
+  newConfig: ArchitectResumeConfig,
+  options?: { format?: 'diff' | 'patch' }
+): ConfigDiff | JsonPatch {
+  if (options?.format === 'patch') {
+    return createJsonPatch(maskEncryptedValues(oldConfig), maskEncryptedValues(newConfig))
+  }
+  
+  const changes: ConfigDiff = {
+    added: [],
+    modified: [],
+    removed: [],
+    details: [],
   }
   
   function compare(old: any, current: any, path: string[] = []): void {
@@ -324,7 +450,7 @@ export function diffConfigs(
         changes.details.push({
           path: path.length > 0 ? `${currentPath}.${key}` : key,
           type: 'removed',
-          oldValue: old[key],
+          oldValue: maskEncryptedValues(old[key]),
         })
       }
     }
@@ -339,7 +465,7 @@ export function diffConfigs(
         changes.details.push({
           path: pathString,
           type: 'added',
-          newValue: current[key],
+          newValue: maskEncryptedValues(current[key]),
         })
       } else if (
         typeof old[key] === 'object' && 
@@ -355,8 +481,8 @@ export function diffConfigs(
         changes.details.push({
           path: pathString,
           type: 'modified',
-          oldValue: old[key],
-          newValue: current[key],
+          oldValue: maskEncryptedValues(old[key]),
+          newValue: maskEncryptedValues(current[key]),
         })
       }
     }
@@ -367,6 +493,173 @@ export function diffConfigs(
   return changes
 }
 
+/**
+ * Diff two audit log revisions
+ */
+export async function diffConfigRevisions(
+  fromRevision: number,
+  toRevision: number,
+  logPath = AUDIT_LOG_PATH
+): Promise<ConfigDiff> {
+  const log = await readAuditLog(logPath)
+  return diffConfigs(replayAuditLog(log, fromRevision), replayAuditLog(log, toRevision))
+}
+
+/**
+ * Restore the config files recorded at a revision
+ *
+ * The audit log keeps a copy of the config files whenever they change, so
+ * templates and secret references come back exactly as they were written.
+ * Changed files are backed up first; a file that did not exist at the
+ * revision is removed. Changes made at runtime through the manager were never
+ * in the files; use ConfigurationManager.rollback for those.
+ */
+export async function rollbackConfigFiles(
+  revision: number,
+  logPath = AUDIT_LOG_PATH,
+  backupDir?: string
+): Promise<{ snapshotRevision: number; restored: string[]; backupPaths: string[] }> {
+  const { revision: snapshotRevision, files } = getConfigFileSnapshot(await readAuditLog(logPath), revision)
+  
+  // Read every copy first so a missing one leaves all files untouched
+  const snapshots = await Promise.all(files.map(async file => ({
+    filePath: file.path,
+    content: await readConfigFileSnapshot(file, logPath),
+  })))
+  
+  const restored: string[] = []
+  const backupPaths: string[] = []
+  
+  for (const { filePath, content } of snapshots) {
+    const current = await fs.readFile(filePath).catch(error => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    })
+    if (current === null ? content === null : content !== null && current.equals(content)) continue
+    
+    if (current !== null) backupPaths.push(await backupConfig(filePath, backupDir))
+    if (content === null) {
+      await fs.rm(filePath)
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, content)
+    }
+    restored.push(filePath)
+  }
+  
+  return { snapshotRevision, restored, backupPaths }
+}
+
+/**
+ * Check static build output for configuration secrets
+ *
+ * Loads the configuration on the server, then looks for each resolved secret
+ * value in the exported files.
+ */
+export async function checkStaticOutputForSecrets(
+  outputDirs: string[] = STATIC_OUTPUT_DIRS,
+  sources?: ConfigSource[]
+): Promise<{ leaks: SecretLeak[]; checkedSecrets: number }> {
+  const loaded = await loadConfiguration(sources)
+  const secretValues: Record<string, string> = {}
+  
+  loaded.secrets.forEach(secretPath => {
+    const value = secretPath.split('.').reduce((current: any, key) => current?.[key], loaded.config)
+    if (typeof value === 'string') {
+      secretValues[secretPath] = value
+    }
+  })
+  
+  return {
+    leaks: await findSecretsInOutput(secretValues, outputDirs),
+    checkedSecrets: Object.keys(secretValues).length,
+  }
+}
+
+/**
+ * Encrypt a plain configuration file into an encrypted overlay
+ *
+ * Creates a key file when no key exists; an unreadable or invalid key is an error. Values already encrypted in
+ * the overlay are kept, so new plain values can be added and re-encrypted.
+ */
+export async function encryptConfigFile(
+  inputPath: string,
+  outputPath = ENCRYPTED_CONFIG_PATH,
+  keyPath = ENCRYPTION_KEY_PATH
+): Promise<{ outputPath: string; keyId: string; createdKey: boolean }> {
+  let key: Buffer
+  let createdKey = false
+  
+  try {
+    key = await loadEncryptionKey(keyPath)
+  } catch (error) {
+    // Never replace a key that exists but cannot be read or decoded
+    if (!(error instanceof MissingEncryptionKeyError)) throw error
+    await writeEncryptionKey(generateEncryptionKey(), keyPath)
+    key = await loadEncryptionKey(keyPath)
+    createdKey = true
+  }
+  
+  const content = await fs.readFile(inputPath, 'utf-8')
+  const encrypted = encryptConfig(parseConfigFile(content, inputPath), key)
+  
+  await fs.writeFile(outputPath, stringifyConfigFile(encrypted, outputPath))
+  
+  return { outputPath, keyId: getKeyId(key), createdKey }
+}
+
+/**
+ * Decrypt an encrypted overlay, optionally writing the plain values to a file
+ */
+export async function decryptConfigFile(
+  inputPath = ENCRYPTED_CONFIG_PATH,
+  outputPath?: string,
+  keyPath = ENCRYPTION_KEY_PATH
+): Promise<Record<string, any>> {
+  const key = await loadEncryptionKey(keyPath)
+  const decrypted = decryptConfig(await readEncryptedConfigFile(inputPath), key, inputPath)
+  
+  if (outputPath) {
+    await fs.writeFile(outputPath, stringifyConfigFile(decrypted, outputPath))
+  }
+  
+  return decrypted
+}
+
+/**
+ * Re-encrypt overlays under a new key
+ *
+ * The previous key is kept next to the new one until you remove it.
+ */
+export async function rotateEncryptionKey(
+  filePaths: string[] = [ENCRYPTED_CONFIG_PATH],
+  keyPath = ENCRYPTION_KEY_PATH
+): Promise<{ oldKeyId: string; newKeyId: string; previousKeyPath: string }> {
+  if (process.env[ENCRYPTION_KEY_ENV]) {
+    throw new Error(`Unset ${ENCRYPTION_KEY_ENV} to rotate the key file`)
+  }
+  
+  const oldKey = await loadEncryptionKey(keyPath)
+  const newKeyEncoded = generateEncryptionKey()
+  const newKey = Buffer.from(newKeyEncoded, 'base64')
+  
+  // Decrypt everything first so a bad file leaves all files untouched
+  const documents = await Promise.all(filePaths.map(async filePath => ({
+    filePath,
+    plain: decryptConfig(await readEncryptedConfigFile(filePath), oldKey, filePath),
+  })))
+  
+  const previousKeyPath = `${keyPath}.previous`
+  await writeEncryptionKey(oldKey.toString('base64'), previousKeyPath)
+  
+  for (const { filePath, plain } of documents) {
+    await fs.writeFile(filePath, stringifyConfigFile(encryptConfig(plain, newKey), filePath))
+  }
+  await writeEncryptionKey(newKeyEncoded, keyPath)
+  
+  return { oldKeyId: getKeyId(oldKey), newKeyId: getKeyId(newKey), previousKeyPath }
+}
+
 /**
  * Configuration backup utility
  */
@@ -375,8 +668,9 @@ export async function backupConfig(
   backupDir = 'config/backups'
 ): Promise<string> {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-  const configName = path.basename(configPath, path.extname(configPath))
-  const backupPath = path.join(backupDir, `${configName}-${timestamp}.json`)
+  const extension = path.extname(configPath)
+  const configName = path.basename(configPath, extension)
+  const backupPath = path.join(backupDir, `${configName}-${timestamp}${extension || '.json'}`)
   
   // Ensure backup directory exists
   await fs.mkdir(backupDir, { recursive: true })
@@ -388,25 +682,80 @@ export async function backupConfig(
   return backupPath
 }
 
+/**
+ * Migrate a configuration file in place to the current schema version,
+ * backing up the original first
+ */
+export async function migrateConfigFile(
+  configPath: string,
+  backupDir?: string
+): Promise<MigrationResult & { backupPath?: string }> {
+  const content = await fs.readFile(configPath, 'utf-8')
+  const rawConfig = parseConfigFile(content, configPath)
+  
+  const result = migrateConfig(rawConfig)
+  if (result.applied.length === 0) {
+    return result
+  }
+  
+  const backupPath = await backupConfig(configPath, backupDir)
+  
+  await fs.writeFile(configPath, stringifyConfigFile(result.config, configPath), 'utf-8')
+  
+  return { ...result, backupPath }
+}
+
+/**
+ * Format a provenance value for display, masking secret values
+ */
+function formatExplainedValue(valuePath: string, value: any, secrets: string[]): string {
+  if (secrets.some(secret => valuePath === secret || valuePath.startsWith(`${secret}.`))) {
+    return '[secret]'
+  }
+  
+  // A leaf such as an array can hold secrets further down
+  const nested = secrets
+    .filter(secret => secret.startsWith(`${valuePath}.`))
+    .map(secret => secret.slice(valuePath.length + 1))
+  return JSON.stringify(nested.length > 0 ? redactSecrets(value, nested) : value)
+}
+
 /**
  * CLI utilities
  */
 export const CLI = {
-  async validate(configPath: string): Promise<void> {
+  async validate(
+    configPath: string,
+    options: { format?: 'text' | 'json'; ruleContext?: SemanticRuleContext } = {}
+  ): Promise<void> {
+    const { format = 'text', ruleContext } = options
+    
+    if (format === 'json') {
+      const { isValid, diagnostics } = await validateConfigFile(configPath, ruleContext)
+      console.log(JSON.stringify({ file: configPath, isValid, diagnostics }, null, 2))
+      return
+    }
+    
     console.log(`Validating configuration: ${configPath}`)
     
-    const result = await validateConfigFile(configPath)
+    const result = await validateConfigFile(configPath, ruleContext)
+    const printDiagnostic = (diagnostic: ConfigDiagnostic) => {
+      console.log(`  - ${formatDiagnostic(diagnostic)}`)
+      if (diagnostic.frame) {
+        console.log(diagnostic.frame.replace(/^/gm, '      '))
+      }
+    }
     
     if (result.isValid) {
       console.log('✅ Configuration is valid!')
     } else {
       console.log('❌ Configuration validation failed:')
-      result.errors.forEach(error => console.log(`  - ${error}`))
+      result.diagnostics.filter(diagnostic => diagnostic.severity === 'error').forEach(printDiagnostic)
     }
     
     if (result.warnings.length > 0) {
       console.log('⚠️ Warnings:')
-      result.warnings.forEach(warning => console.log(`  - ${warning}`))
+      result.diagnostics.filter(diagnostic => diagnostic.severity === 'warning').forEach(printDiagnostic)
     }
   },
   
@@ -414,8 +763,10 @@ export const CLI = {
     console.log(`Generating configuration template: ${outputPath}`)
     
     await generateConfigTemplate(outputPath, true)
+    await writeConfigJsonSchema()
     
     console.log('✅ Configuration template generated!')
+    console.log(`JSON Schema written to ${CONFIG_JSON_SCHEMA_PATH} for editor validation`)
     console.log('Next steps:')
     console.log('1. Edit the generated file with your information')
     console.log('2. Copy config/.env.example to .env.local')
@@ -437,7 +788,204 @@ export const CLI = {
     console.log('\n📝 Template Variables Found:')
     result.templateVariables.forEach(variable => console.log(`  - ${variable}`))
     
+    console.log('\n🔗 Template Dependencies (in resolution order):')
+    result.templateGraph.order.forEach(path => {
+      const dependencies = result.templateGraph.dependencies[path]
+      console.log(`  - ${path}${dependencies.length > 0 ? ` <- ${dependencies.join(', ')}` : ''}`)
+    })
+    
+    if (result.templateGraph.cycles.length > 0) {
+      console.log('\n❌ Template Cycles (left unresolved):')
+      result.templateGraph.cycles.forEach(cycle => console.log(`  - ${cycle.join(' -> ')}`))
+    }
+    
+    if (result.warnings.length > 0) {
+      console.log('\n⚠️ Unresolved Template References:')
+      result.warnings.forEach(warning => console.log(`  - ${warning}`))
+    }
+    
     console.log('\n🔍 Processed Configuration Preview:')
     console.log(JSON.stringify(result.processedConfig, null, 2))
   },
+  
+  async schema(outputPath = CONFIG_JSON_SCHEMA_PATH): Promise<void> {
+    console.log(`Generating configuration JSON Schema: ${outputPath}`)
+    
+    await writeConfigJsonSchema(outputPath)
+    
+    console.log('✅ JSON Schema generated!')
+    console.log('Reference it from a config file with "$schema" to enable editor validation')
+  },
+  
+  async migrate(configPath: string): Promise<void> {
+    console.log(`Migrating configuration: ${configPath}`)
+    
+    const result = await migrateConfigFile(configPath)
+    
+    if (result.applied.length === 0) {
+      console.log(`✅ Configuration is already at schema v${result.toVersion}`)
+      return
+    }
+    
+    console.log(`✅ Migrated from schema v${result.fromVersion} to v${result.toVersion}`)
+    result.applied.forEach(step => console.log(`  - ${step}`))
+    console.log(`Backup written to ${result.backupPath}`)
+    
+    if (result.warnings.length > 0) {
+      console.log('⚠️ Warnings:')
+      result.warnings.forEach(warning => console.log(`  - ${warning}`))
+    }
+  },
+  
+  async encrypt(inputPath: string, outputPath = ENCRYPTED_CONFIG_PATH): Promise<void> {
+    console.log(`Encrypting configuration: ${inputPath}`)
+    
+    const result = await encryptConfigFile(inputPath, outputPath)
+    
+    if (result.createdKey) {
+      console.log(`🔑 Created new key ${result.keyId} in ${ENCRYPTION_KEY_PATH}; keep it out of version control`)
+    }
+    console.log(`✅ Encrypted overlay written to ${result.outputPath} (key ${result.keyId})`)
+    console.log(`You can now delete ${inputPath}`)
+  },
+  
+  async decrypt(inputPath = ENCRYPTED_CONFIG_PATH, outputPath?: string): Promise<void> {
+    const decrypted = await decryptConfigFile(inputPath, outputPath)
+    
+    if (outputPath) {
+      console.log(`✅ Decrypted ${inputPath} to ${outputPath}`)
+      console.log('⚠️ The output contains plain secrets; do not commit it')
+    } else {
+      console.log(JSON.stringify(decrypted, null, 2))
+    }
+  },
+  
+  async rotateKey(filePaths: string[] = [ENCRYPTED_CONFIG_PATH]): Promise<void> {
+    console.log(`Rotating encryption key for: ${filePaths.join(', ')}`)
+    
+    const result = await rotateEncryptionKey(filePaths)
+    
+    console.log(`✅ Re-encrypted with key ${result.newKeyId} (was ${result.oldKeyId})`)
+    console.log(`Previous key saved to ${result.previousKeyPath}; delete it once every copy of the overlay is updated`)
+  },
+  
+  async checkSecrets(outputDirs: string[] = STATIC_OUTPUT_DIRS): Promise<void> {
+    console.log(`Checking build output for secrets: ${outputDirs.join(', ')}`)
+    
+    const { leaks, checkedSecrets } = await checkStaticOutputForSecrets(outputDirs)
+    
+    if (leaks.length === 0) {
+      console.log(`✅ No secrets found in build output (${checkedSecrets} checked)`)
+      return
+    }
+    
+    console.log('❌ Resolved secrets found in static output:')
+    leaks.forEach(leak => console.log(`  - ${leak.secretPath} in ${leak.file}`))
+    // Fail the build step that runs this check
+    process.exitCode = 1
+  },
+  
+  async history(logPath = AUDIT_LOG_PATH): Promise<void> {
+    const entries = await listConfigHistory(logPath)
+    
+    if (entries.length === 0) {
+      console.log(`No configuration changes recorded in ${logPath}`)
+      return
+    }
+    
+    console.log(`📝 Configuration history (${logPath}):`)
+    entries.forEach(entry => {
+      console.log(`  #${entry.revision}  ${entry.timestamp}  ${entry.actor}  ${entry.source}  (${entry.operations} operation${entry.operations === 1 ? '' : 's'})`)
+    })
+  },
+  
+  async revision(revision: number, logPath = AUDIT_LOG_PATH): Promise<void> {
+    const log = await readAuditLog(logPath)
+    const entry = log.find(candidate => candidate.revision === revision)
+    
+    if (!entry) {
+      console.log(`❌ Revision ${revision} does not exist`)
+      process.exitCode = 1
+      return
+    }
+    
+    console.log(`🔍 Revision #${entry.revision} by ${entry.actor} at ${entry.timestamp} (${entry.source})`)
+    console.log('\nPatch:')
+    console.log(JSON.stringify(entry.patch, null, 2))
+    console.log('\nConfiguration:')
+    console.log(JSON.stringify(replayAuditLog(log, revision), null, 2))
+  },
+  
+  async diffRevisions(fromRevision: number, toRevision: number, logPath = AUDIT_LOG_PATH): Promise<void> {
+    const diff = await diffConfigRevisions(fromRevision, toRevision, logPath)
+    
+    console.log(`🔍 Changes from #${fromRevision} to #${toRevision}:`)
+    if (diff.details.length === 0) {
+      console.log('  No differences')
+      return
+    }
+    
+    diff.details.forEach(detail => {
+      const marker = detail.type === 'added' ? '+' : detail.type === 'removed' ? '-' : '~'
+      const values = detail.type === 'modified'
+        ? `${JSON.stringify(detail.oldValue)} → ${JSON.stringify(detail.newValue)}`
+        : JSON.stringify(detail.type === 'added' ? detail.newValue : detail.oldValue)
+      console.log(`  ${marker} ${detail.path}: ${values}`)
+    })
+  },
+  
+  async rollback(revision: number, logPath = AUDIT_LOG_PATH): Promise<void> {
+    console.log(`Rolling back config files to revision #${revision}`)
+    
+    const result = await rollbackConfigFiles(revision, logPath)
+    
+    if (result.restored.length === 0) {
+      console.log(`✅ Config files already match revision #${revision}`)
+      return
+    }
+    console.log(`✅ Restored the config files recorded at revision #${result.snapshotRevision}:`)
+    result.restored.forEach(filePath => console.log(`  ${filePath}`))
+    if (result.backupPaths.length > 0) {
+      console.log(`Backups written to ${result.backupPaths.join(', ')}`)
+    }
+  },
+  
+  async explain(configPath: string, configSources?: string[]): Promise<void> {
+    console.log(`Explaining configuration value: ${configPath}`)
+    
+    // Given files replace the config files, not the defaults and environment overrides
+    const sources: ConfigSource[] | undefined = configSources && [
+      { type: 'default', priority: 0 },
+      ...configSources.map((path, index) => ({
+        type: 'file' as const,
+        path,
+        priority: 10 + index,
+      })),
+      { type: 'env', priority: 30 },
+    ]
+    
+    const loaded = await loadConfiguration(sources, {
+      processTemplates: false,
+      validateSchema: false,
+    })
+    
+    const entries = explainPath(loaded.provenance, configPath)
+    
+    if (entries.length === 0) {
+      console.log('❌ No source supplies this value (it may come from a schema default)')
+      return
+    }
+    
+    entries.forEach(entry => {
+      console.log(`\n🔎 ${entry.path} = ${formatExplainedValue(entry.path, entry.value, loaded.secrets)}`)
+      console.log(`  Set by: ${describeSource(entry.source)}`)
+      
+      if (entry.overridden.length > 0) {
+        console.log('  Overrode:')
+        entry.overridden.forEach(({ source, value }) => {
+          console.log(`    - ${describeSource(source)}: ${formatExplainedValue(entry.path, value, loaded.secrets)}`)
+        })
+      }
+    })
+  },
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+/**
+ * Configuration File Watching
+ * Watches files through their directory so atomic saves and new files are seen
+ */
+
+import { watch as watchFs } from 'fs'
+import path from 'path'
+import { envLog } from './environment'
+
+/**
+ * Default delay before reacting to a burst of file events
+ */
+export const DEFAULT_WATCH_DEBOUNCE = 100
+
+/**
+ * Watch a single config file
+ *
+ * Editors that save atomically write a temporary file and rename it over the
+ * original, which ends a watcher attached to the file itself. Watching the
+ * parent directory and filtering by name survives that, and also reports a
+ * file that is created after watching started.
+ */
+export function watchConfigFile(filePath: string, onChange: () => void): () => void {
+  const absolutePath = path.isAbsolute(filePath)
+    ? filePath
+    : path.join(process.cwd(), filePath)
+  const fileName = path.basename(absolutePath)
+  
+  const watcher = watchFs(path.dirname(absolutePath), (eventType, changed) => {
+    // Some platforms do not report the file name; treat those events as relevant
+    if (changed && changed.toString() !== fileName) return
+    
+    envLog('info', `Config file ${eventType === 'rename' ? 'replaced' : 'changed'}: ${filePath}`)
+    onChange()
+  })
+  
+  return () => watcher.close()
+}
+
+/**
+ * Delay calls until no new call arrived for `delay` milliseconds
+ */
+export function debounce(fn: () => void, delay = DEFAULT_WATCH_DEBOUNCE): { (): void; cancel(): void } {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  
+  const debounced = () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = undefined
+      fn()
+    }, delay)
+  }
+  
+  debounced.cancel = () => {
+    if (timer) clearTimeout(timer)
+    timer = undefined
+  }
+  
+  return debounced
+}
\ No newline at end of file
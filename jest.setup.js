@@ -26,8 +26,10 @@ jest.mock('framer-motion', () => ({
   },
 }))
 
-// Mock window.scrollTo
-Object.defineProperty(window, 'scrollTo', {
-  value: jest.fn(),
-  writable: true,
-})
\ No newline at end of file
+// Mock window.scrollTo; config tests run in the node environment without a window
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'scrollTo', {
+    value: jest.fn(),
+    writable: true,
+  })
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Fails the build when a resolved configuration secret ends up in the static export.
+ * Runs CLI.checkSecrets from config/utils.ts, compiling the TypeScript sources on the fly.
+ *
+ * Usage: node scripts/check-secrets.js [outputDir...]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const rootDir = path.join(__dirname, '..');
+
+// Resolve the "@/" import alias from tsconfig.json
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const target = request.startsWith('@/') ? path.join(rootDir, request.slice(2)) : request;
+  return resolveFilename.call(this, target, ...rest);
+};
+
+for (const extension of ['.ts', '.tsx']) {
+  require.extensions[extension] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        jsx: ts.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+      },
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+async function main() {
+  const { CLI } = require('../config/utils.ts');
+  const outputDirs = process.argv.slice(2);
+
+  await CLI.checkSecrets(outputDirs.length > 0 ? outputDirs : undefined);
+}
+
+main().catch(error => {
+  console.error('❌ Secret check failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import {
+  recordConfigChange,
+  readAuditLog,
+  replayAuditLog,
+  listConfigHistory,
+  getConfigFileSnapshot,
+  getAuditSnapshotDir,
+} from '../../config/audit'
+import { ConfigurationManager } from '../../config/manager'
+import { rollbackConfigFiles, diffConfigRevisions } from '../../config/utils'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Configuration audit log, history and rollback
+ */
+
+describe('Config Audit Log', () => {
+  const originalEnv = process.env
+  const tempDir = useTempDir('audit')
+  let logPath: string
+  
+  beforeEach(() => {
+    logPath = tempDir.resolve('architect-resume.audit.jsonl')
+    process.env = { ...originalEnv, CHATBOT_API_KEY: 'chat-key-123456' }
+  })
+  
+  afterEach(() => {
+    process.env = originalEnv
+  })
+  
+  const readLogSync = () => fs.readFileSync(logPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line))
+  
+  it('should write a baseline first and replay any revision', async () => {
+    await recordConfigChange({ oldConfig: { a: 1 }, newConfig: { a: 2 }, source: 'set', actor: 'jane' }, logPath)
+    await recordConfigChange({ oldConfig: { a: 2 }, newConfig: { a: 2, b: 1 }, source: 'applyPatch' }, logPath)
+    // The files changed outside the manager, so a new baseline is written
+    await recordConfigChange({ oldConfig: { a: 5 }, newConfig: { a: 6 }, source: 'set' }, logPath)
+    
+    const log = await readAuditLog(logPath)
+    
+    expect(log.map(entry => entry.source)).toEqual(['baseline', 'set', 'applyPatch', 'baseline', 'set'])
+    expect(log[1].actor).toBe('jane')
+    expect(replayAuditLog(log, 1)).toEqual({ a: 1 })
+    expect(replayAuditLog(log, 3)).toEqual({ a: 2, b: 1 })
+    expect(replayAuditLog(log, 5)).toEqual({ a: 6 })
+    expect((await listConfigHistory(logPath))[2]).toMatchObject({ revision: 3, operations: 1 })
+    expect((await diffConfigRevisions(1, 3, logPath)).details.map(detail => detail.path)).toEqual(['a', 'b'])
+  })
+  
+  it('should skip changes that change nothing and catch edited logs', async () => {
+    expect(await recordConfigChange({ oldConfig: { a: 1 }, newConfig: { a: 1 }, source: 'set' }, logPath)).toBeUndefined()
+    expect(fs.existsSync(logPath)).toBe(false)
+    
+    await recordConfigChange({ oldConfig: { a: 1 }, newConfig: { a: 2 }, source: 'set' }, logPath)
+    fs.writeFileSync(logPath, fs.readFileSync(logPath, 'utf-8').replace('"value":2', '"value":3'))
+    
+    expect(() => replayAuditLog(readLogSync(), 2)).toThrow('Audit log is inconsistent at revision 2')
+  })
+  
+  describe('with a ConfigurationManager', () => {
+    let configPath: string
+    const fileContent = JSON.stringify({
+      personal: { name: 'Jane Architect', title: 'Architect' },
+      seo: { title: '{{personal.name}} - {{personal.title}}' },
+      chatbot: { apiKey: { $secret: 'env:CHATBOT_API_KEY' } },
+    }, null, 2)
+    
+    const createManager = async () => {
+      const manager = new ConfigurationManager({
+        sources: [{ type: 'default', priority: 0 }, { type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        auditLog: logPath,
+        actor: 'ci',
+      })
+      await manager.initialize()
+      return manager
+    }
+    
+    beforeEach(() => {
+      configPath = tempDir.write('site.json', fileContent)
+    })
+    
+    it('should record changes without secret values', async () => {
+      const manager = await createManager()
+      await manager.set('personal.title', 'Principal', { actor: 'jane' })
+      manager.destroy()
+      
+      const log = await readAuditLog(logPath)
+      
+      expect(log.map(entry => [entry.source, entry.actor])).toEqual([['baseline', 'jane'], ['set', 'jane']])
+      expect(replayAuditLog(log, 2).personal.title).toBe('Principal')
+      expect(fs.readFileSync(logPath, 'utf-8')).not.toContain('chat-key-123456')
+    })
+    
+    it('should roll back in memory and record the rollback', async () => {
+      const manager = await createManager()
+      await manager.set('personal.title', 'Principal')
+      await manager.set('personal.name', 'Jo')
+      
+      await manager.rollback(2)
+      
+      expect(manager.get('personal')).toEqual(expect.objectContaining({ name: 'Jane Architect', title: 'Principal' }))
+      expect(manager.get('chatbot.apiKey')).toBe('chat-key-123456')
+      expect((await readAuditLog(logPath)).pop()?.source).toBe('rollback:2')
+      manager.destroy()
+    })
+    
+    it('should keep copies of the config files only when they change', async () => {
+      const manager = await createManager()
+      await manager.set('personal.title', 'Principal')
+      await manager.set('personal.title', 'Partner')
+      manager.destroy()
+      
+      const log = await readAuditLog(logPath)
+      
+      expect(log.filter(entry => entry.files).map(entry => entry.revision)).toEqual([1])
+      expect(getConfigFileSnapshot(log, 3)).toEqual({ revision: 1, files: [expect.objectContaining({ path: configPath })] })
+      expect(fs.readdirSync(getAuditSnapshotDir(logPath))).toHaveLength(1)
+    })
+    
+    it('should restore config files as they were written', async () => {
+      const manager = await createManager()
+      await manager.set('personal.title', 'Principal')
+      manager.destroy()
+      
+      fs.writeFileSync(configPath, JSON.stringify({ personal: { name: 'Edited' } }))
+      const edited = await createManager()
+      await edited.set('personal.title', 'Partner')
+      edited.destroy()
+      
+      const backupDir = tempDir.resolve('backups')
+      const result = await rollbackConfigFiles(2, logPath, backupDir)
+      
+      expect(result).toMatchObject({ snapshotRevision: 1, restored: [configPath] })
+      expect(fs.readFileSync(configPath, 'utf-8')).toBe(fileContent)
+      expect(fs.readFileSync(result.backupPaths[0], 'utf-8')).toContain('Edited')
+      
+      // Nothing to do once the files match
+      expect((await rollbackConfigFiles(2, logPath, backupDir)).restored).toEqual([])
+    })
+    
+    it('should refuse revisions without recorded files', async () => {
+      await recordConfigChange({ oldConfig: { a: 1 }, newConfig: { a: 2 }, source: 'set' }, logPath)
+      
+      await expect(rollbackConfigFiles(2, logPath)).rejects.toThrow('No config files were recorded at or before revision 2')
+      await expect(rollbackConfigFiles(9, logPath)).rejects.toThrow('Revision 9 does not exist')
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import path from 'path'
+import { configureConfigCache, getConfigCacheOptions, getCachedConfig, setCachedConfig } from '../../config/cache'
+import { loadConfiguration, clearConfigCache } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Source cache and its persistent backend
+ */
+
+describe('Config Cache', () => {
+  const originalOptions = getConfigCacheOptions()
+  const tempDir = useTempDir('cache')
+  let cacheDir: string
+  
+  beforeEach(() => {
+    cacheDir = tempDir.resolve('cache')
+    configureConfigCache({ persistent: true, directory: cacheDir })
+  })
+  
+  afterEach(async () => {
+    await clearConfigCache()
+    configureConfigCache(originalOptions)
+  })
+  
+  const listCacheEntries = () => fs.existsSync(cacheDir) ? fs.readdirSync(cacheDir) : []
+  
+  // Simulate a restart: drop the in-memory entries but keep the files on disk
+  const forgetMemoryEntries = async () => {
+    configureConfigCache({ persistent: false })
+    await clearConfigCache()
+    configureConfigCache({ persistent: true })
+  }
+  
+  it('should expire a cached file source when its content changes', async () => {
+    const configPath = tempDir.write('site.json', { seo: { title: 'First' } })
+    const sources = [{ type: 'file' as const, path: configPath, priority: 10, cache: true }]
+    const load = () => loadConfiguration(sources, { validateSchema: false, processTemplates: false })
+    
+    expect((await load()).config.seo.title).toBe('First')
+    tempDir.write('site.json', { seo: { title: 'Second' } })
+    
+    expect((await load()).config.seo.title).toBe('Second')
+    expect(listCacheEntries()).toHaveLength(1)
+  })
+  
+  it('should keep module config files out of the persistent cache', async () => {
+    tempDir.write('title.ts', "export const title = 'Imported'\n")
+    const configPath = tempDir.write('site.config.ts', "import { title } from './title'\nexport default { seo: { title } }\n")
+    const sources = [{ type: 'file' as const, path: configPath, priority: 10, cache: true }]
+    
+    const loaded = await loadConfiguration(sources, { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.seo.title).toBe('Imported')
+    expect(listCacheEntries()).toEqual([])
+  })
+  
+  it('should not read persisted entries for sources kept in memory', async () => {
+    const source = { type: 'file', path: 'site.config.ts', cache: true }
+    await setCachedConfig('site.config.ts', { seo: { title: 'Persisted' } }, source, 'fingerprint')
+    await forgetMemoryEntries()
+    
+    expect(await getCachedConfig('site.config.ts', 'fingerprint', false)).toBeUndefined()
+    expect(await getCachedConfig('site.config.ts', 'fingerprint')).toEqual({ seo: { title: 'Persisted' } })
+  })
+  
+  it('should discard persisted entries that fail their checksum', async () => {
+    const source = { type: 'file', path: 'site.json', cache: true }
+    await setCachedConfig('site.json', { seo: { title: 'Persisted' } }, source, 'fingerprint')
+    const entryPath = path.join(cacheDir, listCacheEntries()[0])
+    const entry = JSON.parse(fs.readFileSync(entryPath, 'utf-8'))
+    fs.writeFileSync(entryPath, JSON.stringify({ ...entry, config: { seo: { title: 'Tampered' } } }))
+    await forgetMemoryEntries()
+    
+    expect(await getCachedConfig('site.json', 'fingerprint')).toBeUndefined()
+    expect(listCacheEntries()).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import { defineConfig, resolveUserConfig } from '../../config/define'
+import { getRuntimeEnvironment } from '../../config/environment'
+import { loadConfiguration } from '../../config/loader'
+import { ConfigParseError } from '../../config/formats'
+import { loadTypeScriptModule } from '../../config/transpile'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * TypeScript config files and the defineConfig helper
+ */
+
+describe('TypeScript Config Files', () => {
+  const tempDir = useTempDir('define')
+
+  it('should return the config or factory it is given', async () => {
+    const config = { personal: { name: 'Jane' } }
+    expect(defineConfig(config)).toBe(config)
+
+    const factory = defineConfig(runtime => ({ seo: { title: runtime.isProduction ? 'Live' : 'Draft' } }))
+    const resolved = await resolveUserConfig(factory, { ...getRuntimeEnvironment(), isProduction: true })
+    expect(resolved).toEqual({ seo: { title: 'Live' } })
+  })
+
+  it('should transpile a config file and follow relative imports', async () => {
+    tempDir.write('name.ts', "export const name: string = 'Jane Architect'\n")
+    const configPath = tempDir.write('architect-resume.config.ts', [
+      "import { defineConfig } from '@/config/define'",
+      "import { name } from './name'",
+      '',
+      'export default defineConfig({ personal: { name } })',
+    ].join('\n'))
+
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.personal.name).toBe('Jane Architect')
+  })
+
+  it('should call async factory exports with the runtime environment', async () => {
+    const configPath = tempDir.write('architect-resume.config.ts', [
+      "import { defineConfig } from '@/config/define'",
+      '',
+      'export default defineConfig(async runtime => ({',
+      "  seo: { title: runtime.isServer ? 'Server' : 'Client' },",
+      '}))',
+    ].join('\n'))
+
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+
+    expect(loaded.config.seo.title).toBe('Server')
+  })
+
+  it('should report syntax errors with file, line and column', async () => {
+    const configPath = tempDir.write('broken.config.ts', 'export default {\n  personal: { name: }\n}\n')
+
+    await expect(loadTypeScriptModule(configPath)).rejects.toBeInstanceOf(ConfigParseError)
+    await expect(loadTypeScriptModule(configPath)).rejects.toThrow(`${configPath}:2:`)
+  })
+})
\ No newline at end of file
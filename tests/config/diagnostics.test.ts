@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createSourceLocator,
+  createCodeFrame,
+  suggestKey,
+  diagnoseUnknownKeys,
+  formatDiagnostic,
+  splitPath,
+} from '../../config/diagnostics'
+import { validateConfigFile } from '../../config/utils'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Validation diagnostics with source locations and key suggestions
+ */
+
+describe('Config Diagnostics', () => {
+  const tempDir = useTempDir('diagnostics')
+  
+  it('should locate values and keys in JSON and YAML', () => {
+    const json = createSourceLocator('{\n  "social": {\n    "linkedIn": "x"\n  }\n}')
+    expect(json.locate(['social', 'linkedIn'])).toEqual({ line: 3, column: 17 })
+    expect(json.locate(['social', 'linkedIn'], { key: true })).toEqual({ line: 3, column: 5 })
+    
+    const yaml = createSourceLocator('experience:\n  items:\n    - id: a\n    - id: b\n')
+    expect(yaml.locate(splitPath('experience.items.1.id'))).toEqual({ line: 4, column: 11 })
+  })
+  
+  it('should fall back to the deepest ancestor that exists', () => {
+    const locator = createSourceLocator('{\n  "seo": {\n    "title": "x"\n  }\n}')
+    
+    expect(locator.locate(['seo', 'siteUrl'])).toEqual({ line: 2, column: 10 })
+  })
+  
+  it('should draw a code frame with a caret under the column', () => {
+    const frame = createCodeFrame('a\nb\n  "seo": 1\nd', { line: 3, column: 3 }, 1)
+    
+    expect(frame).toBe([
+      '  2 | b',
+      '> 3 |   "seo": 1',
+      '    |   ^',
+      '  4 | d',
+    ].join('\n'))
+  })
+  
+  it('should suggest the closest known key', () => {
+    expect(suggestKey('linkedIn', ['linkedin', 'github'])).toBe('linkedin')
+    expect(suggestKey('gihtub', ['linkedin', 'github'])).toBe('github')
+    expect(suggestKey('website', ['linkedin', 'github'])).toBeUndefined()
+  })
+  
+  it('should warn about keys the schema would strip', () => {
+    const diagnostics = diagnoseUnknownKeys({
+      $schema: './architect-resume.schema.json',
+      social: { linkedIn: 'https://linkedin.com/in/jane' },
+      portfolio: { projects: [{ id: 'a', titl: 'A' }] },
+    })
+    
+    expect(diagnostics.map(diagnostic => [diagnostic.path, diagnostic.suggestion])).toEqual([
+      ['social.linkedIn', 'linkedin'],
+      ['portfolio.projects.0.titl', 'title'],
+    ])
+    expect(diagnostics[0].message).toBe('Unknown key "linkedIn" is ignored. Did you mean "linkedin"?')
+  })
+  
+  it('should report validation errors with file positions', async () => {
+    const configPath = tempDir.write('site.json', [
+      '{',
+      '  "social": { "linkedIn": "x" },',
+      '  "theme": { "primaryColor": "red" }',
+      '}',
+    ].join('\n'))
+    
+    const result = await validateConfigFile(configPath)
+    const color = result.diagnostics.find(diagnostic => diagnostic.path === 'theme.primaryColor')
+    const unknown = result.diagnostics.find(diagnostic => diagnostic.code === 'unknown-key')
+    
+    expect(result.isValid).toBe(false)
+    expect(color).toMatchObject({ severity: 'error', file: configPath, line: 3, column: 30 })
+    expect(color?.frame).toContain('> 3 |')
+    expect(unknown).toMatchObject({ severity: 'warning', line: 2, column: 15 })
+    expect(formatDiagnostic(unknown!)).toBe(
+      `${configPath}:2:15: social.linkedIn: Unknown key "linkedIn" is ignored. Did you mean "linkedin"?`
+    )
+  })
+  
+  it('should report parse errors as located diagnostics', async () => {
+    const configPath = tempDir.write('site.yaml', 'personal:\n  name: Jane: Architect\n')
+    
+    const result = await validateConfigFile(configPath)
+    
+    expect(result.isValid).toBe(false)
+    expect(result.diagnostics[0]).toMatchObject({ code: 'parse-error', line: 2, column: 9 })
+  })
+})
\ No newline at end of file
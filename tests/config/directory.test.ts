@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { loadConfigDirectory, listConfigDirectoryFiles } from '../../config/directory'
+import { loadConfiguration } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Configuration assembled from a directory of content files
+ */
+
+describe('Config Directories', () => {
+  const tempDir = useTempDir('directory')
+  
+  it('should map files onto the objects named after them', async () => {
+    tempDir.write('personal.yaml', 'name: Jane Architect\ntitle: Architect\n')
+    tempDir.write('theme.toml', 'primaryColor = "#112233"\n')
+    
+    expect(await loadConfigDirectory(tempDir.path)).toEqual({
+      personal: { name: 'Jane Architect', title: 'Architect' },
+      theme: { primaryColor: '#112233' },
+    })
+  })
+  
+  it('should collect array items and section items in order', async () => {
+    tempDir.write('portfolio/projects/harbor-museum.json', { id: 'harbor' })
+    tempDir.write('portfolio/projects/eco-villa.json', { id: 'eco' })
+    tempDir.write('experience/2017-studio.yaml', 'id: studio\norder: 2\n')
+    tempDir.write('experience/2020-lead.yaml', 'id: lead\norder: 1\n')
+    
+    const config = await loadConfigDirectory(tempDir.path)
+    
+    expect(config.portfolio.projects.map((project: any) => project.id)).toEqual(['eco', 'harbor'])
+    expect(config.experience).toEqual({ items: [{ id: 'lead' }, { id: 'studio' }] })
+  })
+  
+  it('should ignore hidden files, unknown formats and the $schema reference', async () => {
+    tempDir.write('.draft.json', { hidden: true })
+    tempDir.write('notes.txt', 'not config')
+    tempDir.write('seo.json', { $schema: '../schema.json', title: 'Jane' })
+    
+    expect(await loadConfigDirectory(tempDir.path)).toEqual({ seo: { title: 'Jane' } })
+  })
+  
+  it('should list the content files it reads', async () => {
+    const personal = tempDir.write('personal.yaml', 'name: Jane\n')
+    const project = tempDir.write('portfolio/projects/eco-villa.json', '{}')
+    tempDir.write('notes.txt', '')
+    
+    expect((await listConfigDirectoryFiles(tempDir.path)).sort()).toEqual([personal, project].sort())
+    expect(await listConfigDirectoryFiles(tempDir.resolve('missing'))).toEqual([])
+  })
+  
+  it('should merge directory sources with other sources', async () => {
+    const configPath = tempDir.write('site.json', { personal: { name: 'Jane', title: 'Architect' } })
+    tempDir.write('content/personal.yaml', 'title: Principal Architect\n')
+    tempDir.write('content/portfolio/projects/eco-villa.yaml', 'id: eco-villa\ntitle: Eco Villa\n')
+    
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+      { type: 'directory', path: tempDir.resolve('content'), priority: 15 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.personal).toEqual({ name: 'Jane', title: 'Principal Architect' })
+    expect(loaded.config.portfolio.projects).toEqual([{ id: 'eco-villa', title: 'Eco Villa' }])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import {
+  encryptConfig,
+  decryptConfig,
+  encryptValue,
+  decryptValue,
+  generateEncryptionKey,
+  loadEncryptionKey,
+  MissingEncryptionKeyError,
+  ENCRYPTION_KEY_ENV,
+} from '../../config/encryption'
+import { encryptConfigFile, decryptConfigFile } from '../../config/utils'
+import { loadConfiguration } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Encrypted configuration overlays
+ */
+
+describe('Config Encryption', () => {
+  const originalEnv = process.env
+  const tempDir = useTempDir('encryption')
+  
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env[ENCRYPTION_KEY_ENV]
+  })
+  
+  afterEach(() => {
+    process.env = originalEnv
+  })
+  
+  const key = Buffer.from(generateEncryptionKey(), 'base64')
+  
+  it('should round-trip a configuration', () => {
+    const plain = { contact: { formApiKey: 'form-key' }, seo: { keywords: ['a', 'b'] }, blog: { postsPerPage: 6 } }
+    
+    const encrypted = encryptConfig(plain, key)
+    
+    expect(encrypted.$encryption.algorithm).toBe('aes-256-gcm')
+    expect(encrypted.contact.formApiKey).toMatch(/^enc:v1:/)
+    expect(encrypted.blog.postsPerPage).toBe(6)
+    expect(decryptConfig(encrypted, key)).toEqual(plain)
+  })
+  
+  it('should bind values to their config path and key', () => {
+    const value = encryptValue('form-key', key, 'contact.formApiKey')
+    const otherKey = Buffer.from(generateEncryptionKey(), 'base64')
+    
+    expect(decryptValue(value, key, 'contact.formApiKey')).toBe('form-key')
+    expect(() => decryptValue(value, key, 'chatbot.apiKey')).toThrow('wrong key or modified value')
+    expect(() => decryptConfig(encryptConfig({ a: 'b' }, key), otherKey)).toThrow('was encrypted with key')
+  })
+  
+  it('should create a key file only when there is no key', async () => {
+    const inputPath = tempDir.resolve('secrets.json')
+    const outputPath = tempDir.resolve('secrets.enc.json')
+    const keyPath = tempDir.resolve('architect-resume.key')
+    fs.writeFileSync(inputPath, JSON.stringify({ chatbot: { apiKey: 'chat-key' } }))
+    
+    await expect(loadEncryptionKey(keyPath)).rejects.toBeInstanceOf(MissingEncryptionKeyError)
+    
+    const first = await encryptConfigFile(inputPath, outputPath, keyPath)
+    const second = await encryptConfigFile(inputPath, outputPath, keyPath)
+    
+    expect(first.createdKey).toBe(true)
+    expect(second).toEqual({ ...first, createdKey: false })
+    expect(await decryptConfigFile(outputPath, undefined, keyPath)).toEqual({ chatbot: { apiKey: 'chat-key' } })
+  })
+  
+  it('should not replace a key file it cannot decode', async () => {
+    const inputPath = tempDir.resolve('secrets.json')
+    const keyPath = tempDir.resolve('architect-resume.key')
+    fs.writeFileSync(inputPath, JSON.stringify({ chatbot: { apiKey: 'chat-key' } }))
+    fs.writeFileSync(keyPath, 'not-a-key\n')
+    
+    await expect(encryptConfigFile(inputPath, tempDir.resolve('secrets.enc.json'), keyPath))
+      .rejects.toThrow('must be 32 bytes')
+    expect(fs.readFileSync(keyPath, 'utf-8')).toBe('not-a-key\n')
+  })
+  
+  it('should load overlays as secrets above the config files', async () => {
+    process.env[ENCRYPTION_KEY_ENV] = key.toString('base64')
+    const configPath = tempDir.resolve('site.json')
+    const overlayPath = tempDir.resolve('secrets.enc.json')
+    fs.writeFileSync(configPath, JSON.stringify({ chatbot: { name: 'Plain' } }))
+    fs.writeFileSync(overlayPath, JSON.stringify(encryptConfig({ chatbot: { name: 'Encrypted' } }, key)))
+    
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+      { type: 'encrypted', path: overlayPath },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.chatbot.name).toBe('Encrypted')
+    expect(loaded.secrets).toContain('chatbot.name')
+  })
+  
+  it('should skip a missing overlay', async () => {
+    const loaded = await loadConfiguration([
+      { type: 'default', priority: 0 },
+      { type: 'encrypted', path: tempDir.resolve('missing.enc.json') },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { resolveEnvOverrides, loadEnvironmentOverrides } from '../../config/environment'
+import { loadConfiguration } from '../../config/loader'
+
+/**
+ * Configuration overrides from environment variables
+ */
+
+describe('Environment Overrides', () => {
+  const originalEnv = process.env
+  
+  afterEach(() => {
+    process.env = originalEnv
+  })
+  
+  it('should coerce values to the types the schema expects', () => {
+    const { config, warnings } = loadEnvironmentOverrides({
+      ARCH_RESUME__blog__postsPerPage: '6',
+      ARCH_RESUME__features__darkMode: 'off',
+      ARCH_RESUME__seo__keywords: 'architect, portfolio',
+      ARCH_RESUME__SEO__SITEURL: 'https://staging.example.com',
+    })
+    
+    expect(warnings).toEqual([])
+    expect(config).toEqual({
+      blog: { postsPerPage: 6 },
+      features: { darkMode: false },
+      seo: { keywords: ['architect', 'portfolio'], siteUrl: 'https://staging.example.com' },
+    })
+  })
+  
+  it('should let ARCH_RESUME__ variables win over mapped variables', () => {
+    const { overrides } = resolveEnvOverrides({
+      NEXT_PUBLIC_SITE_URL: 'https://mapped.example.com',
+      ARCH_RESUME__seo__siteUrl: 'https://structured.example.com',
+      BASE_PATH: '',
+    })
+    
+    expect(overrides.map(override => override.variable)).toEqual(['NEXT_PUBLIC_SITE_URL', 'ARCH_RESUME__seo__siteUrl'])
+    expect(loadEnvironmentOverrides({
+      NEXT_PUBLIC_SITE_URL: 'https://mapped.example.com',
+      ARCH_RESUME__seo__siteUrl: 'https://structured.example.com',
+    }).config.seo?.siteUrl).toBe('https://structured.example.com')
+  })
+  
+  it('should return warnings for unknown paths and values that cannot be coerced', () => {
+    const { config, warnings } = loadEnvironmentOverrides({
+      ARCH_RESUME__seo__siteURLs: 'https://example.com',
+      ARCH_RESUME__blog__postsPerPage: 'six',
+    })
+    
+    expect(config).toEqual({})
+    expect(warnings).toEqual([
+      'Ignoring environment override ARCH_RESUME__blog__postsPerPage: expected a number, got "six"',
+      'Ignoring environment override ARCH_RESUME__seo__siteURLs: seo.siteURLs is not a configuration path',
+    ])
+  })
+  
+  it('should report skipped overrides in LoadedConfig.warnings', async () => {
+    process.env = {
+      ...originalEnv,
+      ARCH_RESUME__features__darkMode: 'maybe',
+      ARCH_RESUME__blog__postsPerPage: '6',
+    }
+    
+    const loaded = await loadConfiguration([
+      { type: 'default', priority: 0 },
+      { type: 'env', priority: 30 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.config.blog.postsPerPage).toBe(6)
+    expect(loaded.warnings).toContain(
+      'Ignoring environment override ARCH_RESUME__features__darkMode: expected a boolean, got "maybe"'
+    )
+  })
+})
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import { parseConfigFile, stringifyConfigFile } from '../../config/parsers'
+import { ConfigParseError, getConfigFileFormat } from '../../config/formats'
+import { loadConfiguration } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * JSON, YAML and TOML config file parsing
+ */
+
+describe('Config File Formats', () => {
+  const tempDir = useTempDir('formats')
+
+  it('should pick the format from the file extension', () => {
+    expect(getConfigFileFormat('config/site.json')).toBe('json')
+    expect(getConfigFileFormat('config/site.YAML')).toBe('yaml')
+    expect(getConfigFileFormat('config/site.yml')).toBe('yaml')
+    expect(getConfigFileFormat('config/site.toml')).toBe('toml')
+    expect(getConfigFileFormat('config/site.ts')).toBeUndefined()
+  })
+
+  it('should parse YAML with multi-line block scalars', () => {
+    const config = parseConfigFile([
+      'personal:',
+      '  name: Jane Architect',
+      '  bio: |',
+      '    Line one',
+      '    Line two',
+    ].join('\n'), 'site.yaml')
+
+    expect(config.personal.name).toBe('Jane Architect')
+    expect(config.personal.bio).toBe('Line one\nLine two\n')
+  })
+
+  it('should parse TOML into plain objects', () => {
+    const config = parseConfigFile([
+      '[personal]',
+      'name = "Jane Architect"',
+      '',
+      '[features]',
+      'blog = false',
+    ].join('\n'), 'site.toml')
+
+    expect(config).toEqual({
+      personal: { name: 'Jane Architect' },
+      features: { blog: false },
+    })
+  })
+
+  it('should report the line and column of YAML errors', () => {
+    expect.assertions(4)
+    try {
+      parseConfigFile('personal:\n  name: Jane: Architect\n', 'site.yaml')
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigParseError)
+      const parseError = error as ConfigParseError
+      expect(parseError.file).toBe('site.yaml')
+      expect([parseError.line, parseError.column]).toEqual([2, 9])
+      expect(parseError.message).toMatch(/^site\.yaml:2:9: /)
+    }
+  })
+
+  it('should report the line and column of TOML and JSON errors', () => {
+    expect(() => parseConfigFile('[personal]\nname = \n', 'site.toml'))
+      .toThrow(/^site\.toml:2:\d+: /)
+    expect(() => parseConfigFile('{\n  "personal": {,\n}', 'site.json'))
+      .toThrow(/^site\.json:2:\d+: /)
+  })
+
+  it('should round-trip values through each format', () => {
+    const data = { personal: { name: 'Jane', bio: 'Line one\nLine two' }, seo: { keywords: ['a', 'b'] } }
+
+    for (const file of ['site.json', 'site.yaml', 'site.toml']) {
+      expect(parseConfigFile(stringifyConfigFile(data, file), file)).toEqual(data)
+    }
+  })
+
+  it('should load YAML and TOML file sources', async () => {
+    const yamlPath = tempDir.resolve('content.yaml')
+    const tomlPath = tempDir.resolve('theme.toml')
+    fs.writeFileSync(yamlPath, 'personal:\n  name: Jane Architect\n')
+    fs.writeFileSync(tomlPath, '[theme]\nprimaryColor = "#112233"\n')
+
+    const loaded = await loadConfiguration([
+      { type: 'file', path: yamlPath, priority: 10 },
+      { type: 'file', path: tomlPath, priority: 11 },
+    ], { validateSchema: false, processTemplates: false })
+
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.personal.name).toBe('Jane Architect')
+    expect(loaded.config.theme.primaryColor).toBe('#112233')
+  })
+
+  it('should put parse errors with their location in LoadedConfig.errors', async () => {
+    const yamlPath = tempDir.write('broken.yaml', 'personal:\n  name: Jane: Architect\n')
+
+    const loaded = await loadConfiguration([
+      { type: 'file', path: yamlPath, priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+
+    expect(loaded.errors.some(error => error.includes(`${yamlPath}:2:9`))).toBe(true)
+  })
+})
\ No newline at end of file
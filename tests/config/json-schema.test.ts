@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { generateConfigJsonSchema, zodToJsonSchema, JSON_SCHEMA_DIALECT } from '../../config/json-schema'
+import { generateConfigTemplate, writeConfigJsonSchema } from '../../config/utils'
+import { loadConfiguration } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * JSON Schema generated from the zod configuration schemas
+ */
+
+describe('Config JSON Schema', () => {
+  const schema = generateConfigJsonSchema()
+  
+  it('should describe the whole config as a draft 2020-12 document', () => {
+    expect(schema.$schema).toBe(JSON_SCHEMA_DIALECT)
+    expect(schema.type).toBe('object')
+    expect(Object.keys(schema.properties)).toEqual(
+      expect.arrayContaining(['$schema', 'personal', 'theme', 'portfolio', 'features'])
+    )
+    expect(schema.$defs.secretReference.required).toEqual(['$secret'])
+  })
+  
+  it('should carry formats, patterns and descriptions', () => {
+    const email = schema.properties.personal.properties.email
+    
+    expect(email.description).toBe('Public contact email address')
+    expect(email.anyOf).toContainEqual({ type: 'string', format: 'email' })
+    expect(schema.properties.theme.properties.primaryColor.anyOf[0].pattern).toBe('^#[0-9A-Fa-f]{6}$')
+  })
+  
+  it('should accept template strings and secret references in place of formatted strings', () => {
+    const alternatives = schema.properties.personal.properties.website.anyOf
+    
+    expect(alternatives).toContainEqual({ type: 'string', pattern: '\\{\\{[^}]+\\}\\}' })
+    expect(alternatives).toContainEqual({ $ref: '#/$defs/secretReference' })
+  })
+  
+  it('should only require fields of array items', () => {
+    expect(schema.properties.personal.required).toBeUndefined()
+    expect(schema.properties.portfolio.properties.projects.items.required).toEqual(
+      expect.arrayContaining(['id', 'title'])
+    )
+  })
+  
+  it('should convert enums, numbers, defaults and case-insensitive patterns', () => {
+    const converted = zodToJsonSchema(z.object({
+      mode: z.enum(['light', 'dark']).default('light'),
+      count: z.number().int().min(1).max(10),
+      code: z.string().regex(/^[a-f]+$/i),
+    }))
+    
+    expect(converted.properties.mode).toEqual({ type: 'string', enum: ['light', 'dark'], default: 'light' })
+    expect(converted.properties.count).toEqual({ type: 'integer', minimum: 1, maximum: 10 })
+    expect(converted.properties.code.anyOf[0].pattern).toBe('^[A-Fa-f]+$')
+    expect(converted.required).toEqual(['count', 'code'])
+  })
+  
+  describe('files', () => {
+    const tempDir = useTempDir('json-schema')
+    
+    it('should write the schema and reference it from generated templates', async () => {
+      const schemaPath = tempDir.resolve('architect-resume.schema.json')
+      const configPath = tempDir.resolve('site', 'architect-resume.json')
+      fs.mkdirSync(path.dirname(configPath))
+      
+      await writeConfigJsonSchema(schemaPath)
+      await generateConfigTemplate(configPath, false, schemaPath)
+      
+      expect(JSON.parse(fs.readFileSync(schemaPath, 'utf-8'))).toEqual(schema)
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf-8')).$schema).toBe('../architect-resume.schema.json')
+    })
+    
+    it('should drop the $schema reference when loading a file', async () => {
+      const configPath = tempDir.write('architect-resume.json', {
+        $schema: './architect-resume.schema.json',
+        personal: { name: 'Jane Architect' },
+      })
+      
+      const loaded = await loadConfiguration([
+        { type: 'file', path: configPath, priority: 10 },
+      ], { validateSchema: false, processTemplates: false })
+      
+      expect(loaded.config).not.toHaveProperty('$schema')
+      expect(loaded.config.personal.name).toBe('Jane Architect')
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path'
+import { fromTemplateConfig, toTemplateConfig, isTemplateShape, TemplateConfig } from '../../config/legacy'
+import { loadConfiguration } from '../../config/loader'
+
+/**
+ * Adapter between the setup wizard's template shape and ArchitectResumeConfig
+ */
+
+describe('Legacy Template Adapter', () => {
+  const template: TemplateConfig = {
+    personal: { name: 'Sarah Chen', tagline: 'Designing Tomorrow' },
+    contact: { email: 'sarah@example.com', officeHours: 'Mon-Fri' },
+    seo: { keywords: 'architecture, sustainability , ' },
+    branding: {
+      colors: { primary: '#2d5a27' },
+      fonts: { heading: 'Playfair Display', body: 'Source Sans Pro' },
+    },
+    features: { blog: true, testimonials: true },
+  }
+  
+  it('should recognise template-only fields', () => {
+    expect(isTemplateShape(template)).toBe(true)
+    expect(isTemplateShape({ seo: { keywords: 'a, b' } })).toBe(true)
+    expect(isTemplateShape({ personal: { name: 'Jane' }, seo: { keywords: ['a'] } })).toBe(false)
+    expect(isTemplateShape(null)).toBe(false)
+  })
+  
+  it('should map template fields onto the current schema', () => {
+    const { value } = fromTemplateConfig(template)
+    
+    expect(value.personal).toEqual({ name: 'Sarah Chen', email: 'sarah@example.com' })
+    expect(value.seo?.keywords).toEqual(['architecture', 'sustainability'])
+    expect(value.theme).toEqual({
+      primaryColor: '#2d5a27',
+      fonts: { primary: 'Source Sans Pro', secondary: 'Playfair Display' },
+    })
+    expect(value.features).toEqual({ blog: true })
+    expect((value as any).contact).toBeUndefined()
+    expect((value as any).branding).toBeUndefined()
+  })
+  
+  it('should list template fields it could not map', () => {
+    const { unmapped } = fromTemplateConfig(template)
+    
+    expect(unmapped.sort()).toEqual([
+      'contact.officeHours',
+      'features.testimonials',
+      'personal.tagline',
+    ])
+  })
+  
+  it('should not overwrite values already in the current shape', () => {
+    const { value } = fromTemplateConfig({
+      contact: { email: 'old@example.com' },
+      personal: { email: 'new@example.com' },
+    } as any)
+    
+    expect(value.personal?.email).toBe('new@example.com')
+  })
+  
+  it('should convert current config back to the template shape', () => {
+    const { value, unmapped } = toTemplateConfig({
+      schemaVersion: 1,
+      personal: { name: 'Sarah Chen', email: 'sarah@example.com' } as any,
+      seo: { keywords: ['architecture', 'sustainability'] } as any,
+      theme: { primaryColor: '#2d5a27' } as any,
+      portfolio: { projectsPerPage: 6 } as any,
+    })
+    
+    expect(value).toEqual({
+      personal: { name: 'Sarah Chen' },
+      contact: { email: 'sarah@example.com' },
+      seo: { keywords: 'architecture, sustainability' },
+      branding: { colors: { primary: '#2d5a27' } },
+    })
+    expect(unmapped).toEqual(['portfolio.projectsPerPage'])
+  })
+  
+  it('should round-trip the mapped fields', () => {
+    const { value } = fromTemplateConfig(template)
+    const { value: back } = toTemplateConfig(value)
+    
+    expect(back.contact?.email).toBe(template.contact?.email)
+    expect(back.branding).toEqual(template.branding)
+    expect(back.seo?.keywords).toBe('architecture, sustainability')
+  })
+  
+  it('should load the bundled examples as template sources', async () => {
+    const loaded = await loadConfiguration([
+      { type: 'template', path: path.join(__dirname, '../../examples/architect-config.json'), priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.personal.name).toBe('Sarah Chen')
+    expect(loaded.config.personal.email).toBe('sarah.chen@greenarch.com')
+    expect(loaded.config.theme.primaryColor).toBe('#2d5a27')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import path from 'path'
+import {
+  detectSchemaVersion,
+  migrateConfig,
+  needsMigration,
+  registerMigration,
+  LEGACY_SCHEMA_VERSION,
+} from '../../config/migrations'
+import { CURRENT_SCHEMA_VERSION } from '../../config/schema'
+import { loadConfiguration } from '../../config/loader'
+import { migrateConfigFile } from '../../config/utils'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Schema versions and migrations of configuration documents
+ */
+
+const legacyConfig = JSON.parse(fs.readFileSync(path.join(__dirname, '../../template.config.json'), 'utf-8'))
+
+describe('Config Migrations', () => {
+  it('should detect the schema version of a document', () => {
+    expect(detectSchemaVersion(legacyConfig)).toBe(LEGACY_SCHEMA_VERSION)
+    expect(detectSchemaVersion({ personal: { name: 'Jane' } })).toBe(CURRENT_SCHEMA_VERSION)
+    expect(detectSchemaVersion({ schemaVersion: 0 })).toBe(0)
+    expect(needsMigration(legacyConfig)).toBe(true)
+    expect(needsMigration({ theme: { primaryColor: '#112233' } })).toBe(false)
+  })
+  
+  it('should upgrade the template shape to the current schema', () => {
+    const result = migrateConfig(legacyConfig)
+    
+    expect(result.fromVersion).toBe(LEGACY_SCHEMA_VERSION)
+    expect(result.toVersion).toBe(CURRENT_SCHEMA_VERSION)
+    expect(result.applied).toHaveLength(1)
+    expect(result.config.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+    expect(result.config.personal.email).toBe(legacyConfig.contact.email)
+    expect(result.config.theme.primaryColor).toBe(legacyConfig.branding.colors.primary)
+    expect(result.config.seo.keywords).toEqual(expect.arrayContaining(['portfolio', 'design']))
+    expect(result.config.branding).toBeUndefined()
+  })
+  
+  it('should warn about fields that have no current equivalent', () => {
+    const { warnings } = migrateConfig(legacyConfig)
+    
+    expect(warnings).toContain('[v0->v1] contact.officeHours has no equivalent in the current schema and was dropped')
+    expect(warnings.some(warning => warning.includes('personal.tagline'))).toBe(true)
+  })
+  
+  it('should leave current documents untouched', () => {
+    const document = { schemaVersion: CURRENT_SCHEMA_VERSION, personal: { name: 'Jane' } }
+    const result = migrateConfig(document)
+    
+    expect(result.config).toBe(document)
+    expect(result.applied).toEqual([])
+  })
+  
+  it('should reject documents newer than the supported schema', () => {
+    expect(() => migrateConfig({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/newer than the supported version/)
+  })
+  
+  it('should only register single-step migrations once per version', () => {
+    const migrate = (document: any) => document
+    expect(() => registerMigration({ from: 0, to: 2, description: 'skip', migrate })).toThrow(/one version/)
+    expect(() => registerMigration({ from: 0, to: 1, description: 'again', migrate })).toThrow(/already registered/)
+  })
+  
+  describe('files', () => {
+    const tempDir = useTempDir('migrations')
+    
+    it('should migrate legacy files while loading and report warnings', async () => {
+      const configPath = tempDir.write('template.config.json', legacyConfig)
+      
+      const loaded = await loadConfiguration([
+        { type: 'file', path: configPath, priority: 10 },
+      ], { validateSchema: false, processTemplates: false })
+      
+      expect(loaded.config.personal.email).toBe(legacyConfig.contact.email)
+      expect(loaded.warnings.some(warning => warning.includes('contact.officeHours'))).toBe(true)
+    })
+    
+    it('should rewrite a file in place and keep a backup', async () => {
+      const configPath = tempDir.write('template.config.json', legacyConfig)
+      
+      const result = await migrateConfigFile(configPath, tempDir.path)
+      
+      expect(result.backupPath).toBeDefined()
+      expect(JSON.parse(fs.readFileSync(result.backupPath!, 'utf-8'))).toEqual(legacyConfig)
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf-8')).schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+      
+      const again = await migrateConfigFile(configPath, tempDir.path)
+      expect(again.applied).toEqual([])
+      expect(again.backupPath).toBeUndefined()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { applyJsonPatch, applyMergePatch, createJsonPatch, createMergePatch } from '../../config/patch'
+import { ConfigurationManager } from '../../config/manager'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * JSON Patch and JSON Merge Patch
+ */
+
+describe('Config Patches', () => {
+  const document = {
+    personal: { name: 'Jane', title: 'Architect' },
+    seo: { keywords: ['architecture', 'design'] },
+  }
+  
+  describe('applyJsonPatch', () => {
+    it('should apply operations in order to a copy', () => {
+      const patched = applyJsonPatch(document, [
+        { op: 'replace', path: '/personal/title', value: 'Principal' },
+        { op: 'add', path: '/seo/keywords/-', value: 'civic' },
+        { op: 'add', path: '/seo/keywords/0', value: 'urban' },
+        { op: 'copy', from: '/personal/name', path: '/seo/title' },
+        { op: 'move', from: '/personal/title', path: '/personal/role' },
+        { op: 'remove', path: '/seo/keywords/1' },
+        { op: 'test', path: '/personal/role', value: 'Principal' },
+      ])
+      
+      expect(patched).toEqual({
+        personal: { name: 'Jane', role: 'Principal' },
+        seo: { keywords: ['urban', 'design', 'civic'], title: 'Jane' },
+      })
+      expect(document.personal.title).toBe('Architect')
+    })
+    
+    it('should name the operation that failed', () => {
+      expect(() => applyJsonPatch(document, [
+        { op: 'replace', path: '/personal/title', value: 'Principal' },
+        { op: 'test', path: '/personal/name', value: 'Jo' },
+      ])).toThrow('JSON Patch operation 1 (test /personal/name) failed: Test failed')
+      
+      expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/personal/missing' }]))
+        .toThrow('Path /personal/missing does not exist')
+      expect(() => applyJsonPatch(document, [{ op: 'add', path: '/seo/keywords/5', value: 'x' }]))
+        .toThrow('out of bounds')
+      expect(() => applyJsonPatch(document, [{ op: 'move', from: '/personal', path: '/personal/copy' }]))
+        .toThrow('into itself')
+    })
+    
+    it('should unescape ~0 and ~1 in pointers', () => {
+      expect(applyJsonPatch({ links: {} }, [{ op: 'add', path: '/links/a~1b~0c', value: 1 }]))
+        .toEqual({ links: { 'a/b~c': 1 } })
+    })
+  })
+  
+  describe('applyMergePatch', () => {
+    it('should merge objects, remove nulls and replace arrays', () => {
+      expect(applyMergePatch(document, {
+        personal: { title: null, email: 'jane@example.com' },
+        seo: { keywords: ['civic'] },
+      })).toEqual({
+        personal: { name: 'Jane', email: 'jane@example.com' },
+        seo: { keywords: ['civic'] },
+      })
+    })
+  })
+  
+  describe('createJsonPatch and createMergePatch', () => {
+    const target = {
+      personal: { name: 'Jane', role: 'Principal' },
+      seo: { keywords: ['architecture'] },
+    }
+    
+    it('should create patches that reproduce the target', () => {
+      const patch = createJsonPatch(document, target)
+      
+      expect(patch).toEqual([
+        { op: 'remove', path: '/personal/title' },
+        { op: 'add', path: '/personal/role', value: 'Principal' },
+        { op: 'remove', path: '/seo/keywords/1' },
+      ])
+      expect(applyJsonPatch(document, patch)).toEqual(target)
+      expect(applyMergePatch(document, createMergePatch(document, target))).toEqual(target)
+    })
+    
+    it('should create empty patches for equal documents', () => {
+      expect(createJsonPatch(document, JSON.parse(JSON.stringify(document)))).toEqual([])
+      expect(createMergePatch(document, JSON.parse(JSON.stringify(document)))).toEqual({})
+    })
+  })
+  
+  describe('ConfigurationManager', () => {
+    const tempDir = useTempDir('patch')
+    let manager: ConfigurationManager
+    
+    beforeEach(async () => {
+      const configPath = tempDir.write('site.json', document)
+      
+      manager = new ConfigurationManager({
+        sources: [{ type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        enableTemplates: false,
+      })
+      await manager.initialize()
+    })
+    
+    afterEach(() => {
+      manager.destroy()
+    })
+    
+    it('should apply patches as one transaction', async () => {
+      const listener = jest.fn()
+      manager.onChange(listener)
+      
+      await manager.applyPatch([
+        { op: 'replace', path: '/personal/title', value: 'Principal' },
+        { op: 'add', path: '/seo/keywords/-', value: 'civic' },
+      ])
+      await manager.applyMergePatch({ personal: { name: 'Jo' } })
+      
+      expect(manager.get('personal')).toEqual({ name: 'Jo', title: 'Principal' })
+      expect(manager.get('seo.keywords')).toEqual(['architecture', 'design', 'civic'])
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+    
+    it('should change nothing when an operation fails', async () => {
+      await expect(manager.applyPatch([
+        { op: 'replace', path: '/personal/title', value: 'Principal' },
+        { op: 'test', path: '/personal/name', value: 'Jo' },
+      ])).rejects.toThrow('Test failed')
+      
+      expect(manager.get('personal.title')).toBe('Architect')
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import {
+  parseConfigPath,
+  resolveConfigPath,
+  getValueAtPath,
+  toJsonPointer,
+  parseJsonPointer,
+} from '../../config/paths'
+import type { ConfigPath, ConfigPathValue } from '../../config/paths'
+import { ConfigurationManager } from '../../config/manager'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Typed configuration paths and JSON Pointers
+ */
+
+describe('Config Paths', () => {
+  const document = {
+    personal: { name: 'Jane' },
+    portfolio: {
+      projects: [
+        { id: 'eco-villa', title: 'Eco Villa' },
+        { id: 'v1.2', title: 'Pavilion' },
+      ],
+    },
+  }
+  
+  it('should parse keys, indexes and selectors', () => {
+    expect(parseConfigPath('experience.items.0.company')).toEqual(['experience', 'items', 0, 'company'])
+    expect(parseConfigPath('experience.items[1]')).toEqual(['experience', 'items', 1])
+    expect(parseConfigPath('portfolio.projects[id=eco-villa].title')).toEqual([
+      'portfolio', 'projects', { field: 'id', value: 'eco-villa' }, 'title',
+    ])
+    expect(parseConfigPath('portfolio.projects[id="v1.2"]')).toEqual([
+      'portfolio', 'projects', { field: 'id', value: 'v1.2' },
+    ])
+  })
+  
+  it('should reject malformed selectors', () => {
+    expect(() => parseConfigPath('portfolio.projects[eco]')).toThrow('expected [index] or [field=value]')
+    expect(() => parseConfigPath('portfolio.projects[id=eco')).toThrow('missing "]"')
+  })
+  
+  it('should resolve selectors to indexes', () => {
+    expect(resolveConfigPath(document, 'portfolio.projects[id="v1.2"].title')).toEqual(['portfolio', 'projects', 1, 'title'])
+    expect(resolveConfigPath(document, 'portfolio.projects[id=missing]')).toBeUndefined()
+    expect(resolveConfigPath(document, 'personal[id=x]')).toBeUndefined()
+  })
+  
+  it('should read values by dot path or JSON Pointer', () => {
+    expect(getValueAtPath(document, 'portfolio.projects[id=eco-villa].title')).toBe('Eco Villa')
+    expect(getValueAtPath(document, '/portfolio/projects/1/title')).toBe('Pavilion')
+    expect(getValueAtPath(document, 'personal.email', 'none')).toBe('none')
+  })
+  
+  it('should escape JSON Pointer tokens both ways', () => {
+    expect(toJsonPointer(['links', 'a/b~c', 0])).toBe('/links/a~1b~0c/0')
+    expect(parseJsonPointer('/links/a~1b~0c/0')).toEqual(['links', 'a/b~c', '0'])
+    expect(parseJsonPointer('')).toEqual([])
+    expect(() => parseJsonPointer('links')).toThrow('must start with "/"')
+  })
+  
+  it('should type paths and their values from the schema', () => {
+    const title: ConfigPath = 'personal.title'
+    const project: ConfigPath = 'portfolio.projects.0.title'
+    const postsPerPage: ConfigPathValue<'blog.postsPerPage'> = 6
+    const keywords: ConfigPathValue<'seo.keywords'> = ['architecture']
+    
+    // @ts-expect-error unknown key
+    const unknown: ConfigPath = 'personal.titel'
+    // @ts-expect-error a number is expected
+    const wrongValue: ConfigPathValue<'blog.postsPerPage'> = 'six'
+    
+    expect([title, project, postsPerPage, keywords, unknown, wrongValue]).toHaveLength(6)
+  })
+  
+  describe('ConfigurationManager', () => {
+    const tempDir = useTempDir('paths')
+    let manager: ConfigurationManager
+    
+    beforeEach(async () => {
+      const configPath = tempDir.write('site.json', document)
+      
+      manager = new ConfigurationManager({
+        sources: [{ type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        enableTemplates: false,
+      })
+      await manager.initialize()
+    })
+    
+    afterEach(() => {
+      manager.destroy()
+    })
+    
+    it('should set array items selected by id', async () => {
+      await manager.set('portfolio.projects[id=eco-villa].featured', true)
+      
+      expect(manager.get('/portfolio/projects/0/featured')).toBe(true)
+      await expect(manager.set('portfolio.projects[id=missing].featured', true)).rejects.toThrow('No array item matches')
+    })
+  })
+})
\ No newline at end of file
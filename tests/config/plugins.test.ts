@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import {
+  registerConfigSourcePlugin,
+  unregisterConfigSourcePlugin,
+  getConfigSourcePlugin,
+  getSourceCacheKey,
+  getSourcePriority,
+} from '../../config/plugins'
+import { loadConfiguration, watchConfiguration } from '../../config/loader'
+
+/**
+ * Config source plugin registry
+ */
+
+describe('Config Source Plugins', () => {
+  afterEach(() => {
+    unregisterConfigSourcePlugin('memory')
+  })
+  
+  it('should register the built-in source types', () => {
+    for (const type of ['file', 'template', 'directory', 'encrypted', 'url', 'env', 'default']) {
+      expect(getConfigSourcePlugin(type)).toBeDefined()
+    }
+    expect(getSourceCacheKey({ type: 'directory', path: 'config/site' })).toBe('directory:config/site')
+    expect(getSourceCacheKey({ type: 'file', path: 'config/site.json' })).toBe('config/site.json')
+  })
+  
+  it('should load sources of a registered type with their options', async () => {
+    registerConfigSourcePlugin({
+      type: 'memory',
+      priority: 20,
+      load: source => ({ personal: { name: source.options?.name } }),
+    })
+    
+    const loaded = await loadConfiguration([
+      { type: 'memory', options: { name: 'Jane Architect' } },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.config.personal.name).toBe('Jane Architect')
+  })
+  
+  it('should fall back to the plugin priority when a source sets none', async () => {
+    registerConfigSourcePlugin({
+      type: 'memory',
+      priority: 20,
+      load: source => ({ seo: { title: source.options?.title } }),
+    })
+    
+    expect(getSourcePriority({ type: 'memory' })).toBe(20)
+    expect(getSourcePriority({ type: 'memory', priority: 5 })).toBe(5)
+    expect(getSourcePriority({ type: 'unregistered' })).toBe(0)
+    
+    const loaded = await loadConfiguration([
+      { type: 'memory', options: { title: 'Plugin' } },
+      { type: 'memory', priority: 10, options: { title: 'Explicit' } },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.config.seo.title).toBe('Plugin')
+  })
+  
+  it('should register template functions that come with a plugin', async () => {
+    registerConfigSourcePlugin({
+      type: 'memory',
+      load: () => ({ personal: { name: 'jane', title: '{{personal.name|shout}}' } }),
+      templateFunctions: { shout: value => String(value).toUpperCase() },
+    })
+    
+    const loaded = await loadConfiguration([{ type: 'memory' }], { validateSchema: false })
+    
+    expect(loaded.config.personal.title).toBe('JANE')
+  })
+  
+  it('should report unknown source types', async () => {
+    const loaded = await loadConfiguration([
+      { type: 'memory', priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.warnings.some(warning => warning.includes('Unknown config source type: memory'))).toBe(true)
+    expect(loaded.errors).toEqual(['No configuration could be loaded from any source'])
+  })
+  
+  it('should reload when a plugin reports a change', async () => {
+    let title = 'First'
+    let notify = () => {}
+    const cleanup = jest.fn()
+    registerConfigSourcePlugin({
+      type: 'memory',
+      load: () => ({ seo: { title } }),
+      watch: (_source, onChange) => {
+        notify = onChange
+        return cleanup
+      },
+    })
+    
+    const titles: string[] = []
+    const reloaded = new Promise<void>(resolve => {
+      const stop = watchConfiguration([{ type: 'memory' }], loaded => {
+        titles.push(loaded.config.seo.title)
+        stop()
+        resolve()
+      }, { debounce: 0 })
+      
+      // Change the data once the baseline has been taken
+      setTimeout(() => {
+        title = 'Second'
+        notify()
+      }, 50)
+    })
+    
+    await reloaded
+    expect(titles).toEqual(['Second'])
+    expect(cleanup).toHaveBeenCalled()
+  })
+})
\ No newline at end of file
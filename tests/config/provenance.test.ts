@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { trackProvenance, explainPath, describeSource, ConfigProvenance } from '../../config/provenance'
+import { ConfigurationManager } from '../../config/manager'
+import type { ConfigSource } from '../../config/loader'
+import { CLI } from '../../config/utils'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Per-value provenance of merged configuration
+ */
+
+describe('Config Provenance', () => {
+  const defaults: ConfigSource = { type: 'default', priority: 0 }
+  const file: ConfigSource = { type: 'file', path: 'config/architect-resume.json', priority: 10 }
+
+  const track = () => {
+    const provenance: ConfigProvenance = {}
+    trackProvenance(provenance, defaults, {
+      theme: { primaryColor: '#000000', fonts: { primary: 'Inter' } },
+      seo: { keywords: ['a', 'b', 'c'] },
+    })
+    trackProvenance(provenance, file, { theme: { primaryColor: '#ff0000' } })
+    return provenance
+  }
+
+  it('should record the source of each leaf and what it overrode', () => {
+    const [entry] = explainPath(track(), 'theme.primaryColor')
+
+    expect(entry.value).toBe('#ff0000')
+    expect(entry.source).toBe(file)
+    expect(entry.overridden).toEqual([{ source: defaults, value: '#000000' }])
+  })
+
+  it('should explain objects by the leaves beneath them', () => {
+    const entries = explainPath(track(), 'theme')
+
+    expect(entries.map(entry => entry.path).sort()).toEqual(['theme.fonts.primary', 'theme.primaryColor'])
+  })
+
+  it('should explain array items by the array that holds them', () => {
+    const [entry] = explainPath(track(), 'seo.keywords.1')
+
+    expect(entry.path).toBe('seo.keywords')
+    expect(entry.source).toBe(defaults)
+  })
+
+  it('should describe sources with and without a priority', () => {
+    expect(describeSource(file)).toBe('file config/architect-resume.json (priority 10)')
+    expect(describeSource({ type: 'manager', path: 'set' })).toBe('manager set')
+  })
+
+  describe('ConfigurationManager.explain', () => {
+    const tempDir = useTempDir('provenance')
+    let manager: ConfigurationManager
+
+    beforeEach(async () => {
+      const configPath = tempDir.write('site.json', {
+        personal: { name: 'Jane Architect', title: 'Architect' },
+        portfolio: { projects: [{ id: 'eco-villa', title: 'Eco Villa' }] },
+      })
+
+      manager = new ConfigurationManager({
+        sources: [{ type: 'default', priority: 0 }, { type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        enableTemplates: false,
+      })
+      await manager.initialize()
+    })
+
+    afterEach(() => {
+      manager.destroy()
+    })
+
+    it('should explain leaves, objects and array items', () => {
+      expect(manager.explain('personal.name')).toHaveLength(1)
+      expect(manager.explain('personal').map(entry => entry.path)).toEqual(
+        expect.arrayContaining(['personal.name', 'personal.title'])
+      )
+      expect(manager.explain('portfolio.projects[id=eco-villa].title')[0].path).toBe('portfolio.projects')
+      expect(manager.explain('personal.nothing')).toEqual([])
+    })
+
+    it('should attribute values changed by set and transactions', async () => {
+      await manager.set('personal.name', 'Jo Architect')
+      const [entry] = manager.explain('personal.name')
+
+      expect(entry.value).toBe('Jo Architect')
+      expect(entry.source).toMatchObject({ type: 'manager', path: 'set' })
+      expect(entry.overridden[entry.overridden.length - 1].value).toBe('Jane Architect')
+
+      await manager.transaction(tx => {
+        tx.set('personal.title', 'Principal')
+      }, { actor: 'jo' })
+      expect(manager.explain('personal.title')[0].source).toEqual({
+        type: 'manager',
+        path: 'transaction',
+        options: { actor: 'jo' },
+      })
+    })
+  })
+
+  describe('CLI.explain', () => {
+    const tempDir = useTempDir('explain')
+
+    it('should mask secret values and the values they overrode', async () => {
+      const basePath = tempDir.write('base.json', { chatbot: { apiKey: 'chat-key-base', name: 'Assistant' } })
+      const localPath = tempDir.write('local.json', { chatbot: { apiKey: 'chat-key-local' } })
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+
+      await CLI.explain('chatbot', [basePath, localPath])
+      const output = log.mock.calls.map(call => call.join(' ')).join('\n')
+      log.mockRestore()
+
+      expect(output).toContain('chatbot.apiKey = [secret]')
+      expect(output).toContain('chatbot.name = "Assistant"')
+      expect(output).not.toContain('chat-key-')
+    })
+  })
+})
\ No newline at end of file
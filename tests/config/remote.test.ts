@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+import { loadRemoteConfig, getRemoteConfigState, clearRemoteConfigCache } from '../../config/remote'
+import { ConfigParseError } from '../../config/formats'
+
+/**
+ * Remote configuration sources, served by a local HTTP server
+ */
+
+describe('Remote Config', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: http.IncomingHttpHeaders[]
+  let respond: (request: http.IncomingMessage, response: http.ServerResponse) => void
+  
+  beforeEach(async () => {
+    requests = []
+    server = http.createServer((request, response) => {
+      requests.push(request.headers)
+      respond(request, response)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+  
+  afterEach(async () => {
+    clearRemoteConfigCache()
+    await new Promise(resolve => server.close(resolve))
+  })
+  
+  const respondWithOffice = () => {
+    respond = (request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      response.setHeader('ETag', `"${request.headers['x-office']}"`)
+      response.end(JSON.stringify({ contact: { address: request.headers['x-office'] } }))
+    }
+  }
+  
+  it('should reuse a response within its ttl', async () => {
+    respondWithOffice()
+    const url = `${baseUrl}/config.json`
+    
+    const first = await loadRemoteConfig(url, { headers: { 'X-Office': 'london' } })
+    const second = await loadRemoteConfig(url, { headers: { 'X-Office': 'london' } })
+    
+    expect(second).toEqual(first)
+    expect(requests).toHaveLength(1)
+  })
+  
+  it('should not share responses between requests with different headers', async () => {
+    respondWithOffice()
+    const url = `${baseUrl}/config.json`
+    
+    const london = await loadRemoteConfig(url, { headers: { 'X-Office': 'london' } })
+    const paris = await loadRemoteConfig(url, { headers: { 'X-Office': 'paris' } })
+    
+    expect(london.contact.address).toBe('london')
+    expect(paris.contact.address).toBe('paris')
+    expect(requests).toHaveLength(2)
+  })
+  
+  it('should resolve bearer tokens and keep them out of the cache state', async () => {
+    const originalToken = process.env.REMOTE_CONFIG_TOKEN
+    process.env.REMOTE_CONFIG_TOKEN = 'token-123456'
+    respondWithOffice()
+    
+    try {
+      await loadRemoteConfig(`${baseUrl}/config.json`, { bearerToken: { $secret: 'env:REMOTE_CONFIG_TOKEN' } })
+    } finally {
+      process.env.REMOTE_CONFIG_TOKEN = originalToken
+    }
+    
+    expect(requests[0].authorization).toBe('Bearer token-123456')
+    expect(getRemoteConfigState().map(state => state.url)).toEqual([`${baseUrl}/config.json`])
+    expect(JSON.stringify(getRemoteConfigState())).not.toContain('token-123456')
+  })
+  
+  it('should revalidate with the validators of the matching copy', async () => {
+    respond = (request, response) => {
+      if (request.headers['if-none-match'] === '"v1"') {
+        response.statusCode = 304
+        response.end()
+        return
+      }
+      response.setHeader('ETag', '"v1"')
+      response.end('title = "Remote"\n')
+    }
+    const url = `${baseUrl}/config.toml`
+    
+    await loadRemoteConfig(url, {}, 0)
+    const revalidated = await loadRemoteConfig(url, {}, 0)
+    
+    expect(revalidated).toEqual({ title: 'Remote' })
+    expect(requests[1]['if-none-match']).toBe('"v1"')
+  })
+  
+  it('should serve the last good copy when the remote fails', async () => {
+    respondWithOffice()
+    const url = `${baseUrl}/config.json`
+    const options = { headers: { 'X-Office': 'london' }, retries: 0 }
+    await loadRemoteConfig(url, options, 0)
+    
+    respond = (_request, response) => {
+      response.statusCode = 503
+      response.end()
+    }
+    
+    expect(await loadRemoteConfig(url, options, 0)).toEqual({ contact: { address: 'london' } })
+    await expect(loadRemoteConfig(url, { ...options, headers: { 'X-Office': 'paris' } }, 0)).rejects.toThrow('HTTP 503')
+  })
+  
+  it('should report invalid responses as parse errors without retrying', async () => {
+    respond = (_request, response) => {
+      response.setHeader('Content-Type', 'application/json')
+      response.end('{ "title": ')
+    }
+    
+    const error = await loadRemoteConfig(`${baseUrl}/config.json`, { retries: 2, retryDelay: 1 }).catch(e => e)
+    
+    expect(error).toBeInstanceOf(ConfigParseError)
+    expect(requests).toHaveLength(1)
+  })
+  
+  it('should forget every copy of a URL', async () => {
+    respondWithOffice()
+    const url = `${baseUrl}/config.json`
+    await loadRemoteConfig(url, { headers: { 'X-Office': 'london' } })
+    await loadRemoteConfig(url, { headers: { 'X-Office': 'paris' } })
+    
+    clearRemoteConfigCache(url)
+    
+    expect(getRemoteConfigState()).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import {
+  validateSemantics,
+  registerSemanticRule,
+  unregisterSemanticRule,
+  formatSemanticIssue,
+  BUILT_IN_RULES,
+} from '../../config/rules'
+import { validateConfig, ArchitectResumeConfig } from '../../config/schema'
+import { loadConfiguration, loadSemanticRuleContext } from '../../config/loader'
+import { blogPosts } from '../../app/data/blog'
+
+/**
+ * Cross-field semantic validation rules
+ */
+
+describe('Semantic Rules', () => {
+  let defaults: ArchitectResumeConfig
+  
+  beforeAll(async () => {
+    const loaded = await loadConfiguration([
+      { type: 'default', priority: 0 },
+    ], { validateSchema: false, processTemplates: false })
+    defaults = loaded.config
+  })
+  
+  const createConfig = (overrides: Record<string, any> = {}): ArchitectResumeConfig => {
+    const result = validateConfig({ ...defaults, ...overrides })
+    if (!result.data) throw new Error('Test config should be schema-valid')
+    return result.data
+  }
+  
+  const experience = (items: Record<string, any>[]) => ({
+    experience: {
+      ...defaults.experience,
+      items: items.map((item, index) => ({
+        id: `job-${index}`,
+        company: 'Studio',
+        position: 'Architect',
+        location: 'Seattle',
+        description: 'Designed sustainable buildings',
+        startDate: '2017-06',
+        ...item,
+      })),
+    },
+  })
+  
+  it('should report end dates before start dates with their path', () => {
+    const result = validateSemantics(createConfig(experience([{}, { endDate: '2015-01' }])), {})
+    
+    expect(result.isValid).toBe(false)
+    expect(result.errors.map(formatSemanticIssue)).toEqual([
+      'experience.items.1.endDate: End date 2015-01 is before start date 2017-06 [date-order]',
+    ])
+  })
+  
+  it('should reject current entries with an end date and duplicate ids', () => {
+    const result = validateSemantics(createConfig(experience([
+      { id: 'studio', current: true, endDate: '2020-01' },
+      { id: 'studio' },
+    ])), {})
+    
+    expect(result.errors.map(issue => [issue.rule, issue.path])).toEqual([
+      ['current-without-end-date', 'experience.items.0.endDate'],
+      ['unique-ids', 'experience.items.1.id'],
+    ])
+  })
+  
+  it('should skip content rules when the context does not provide the content', () => {
+    const config = createConfig({
+      skills: { ...defaults.skills, items: [{ name: 'Revit', level: 90, category: 'Software' }] },
+      blog: { ...defaults.blog, enabled: true, featuredPostsLimit: 20 },
+    })
+    
+    expect(validateSemantics(config, {}).warnings).toEqual([])
+  })
+  
+  it('should warn about skill categories the skills section does not render', () => {
+    const config = createConfig({
+      skills: {
+        ...defaults.skills,
+        items: [
+          { name: 'Revit', level: 90, category: 'Software Proficiency' },
+          { name: 'Knitting', level: 40, category: 'Hobbies' },
+        ],
+      },
+    })
+    
+    const { warnings } = validateSemantics(config, { renderedSkillCategories: ['Software Proficiency'] })
+    
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toMatchObject({ rule: 'rendered-skill-categories', path: 'skills.items.1.category' })
+  })
+  
+  it('should compare the featured posts limit with the count passed in', () => {
+    const config = createConfig({ blog: { ...defaults.blog, enabled: true, featuredPostsLimit: 5 } })
+    
+    expect(validateSemantics(config, { featuredPostCount: 5 }).warnings).toEqual([])
+    expect(validateSemantics(config, { featuredPostCount: 2 }).warnings[0].message)
+      .toBe('Limit of 5 exceeds the 2 featured posts available')
+  })
+  
+  it('should load the featured post count from the app when no context is given', async () => {
+    const featuredPostCount = blogPosts.filter(post => post.featured).length
+    const sources = [{ type: 'default' as const, priority: 0 }]
+    const limitWarning = expect.stringContaining('[featured-posts-limit]')
+    
+    expect(await loadSemanticRuleContext()).toEqual({ featuredPostCount })
+    expect(await loadSemanticRuleContext('/nonexistent/app')).toEqual({})
+    
+    const loaded = await loadConfiguration(sources)
+    expect(loaded.config.blog.featuredPostsLimit).toBeGreaterThan(featuredPostCount)
+    expect(loaded.warnings).toContainEqual(limitWarning)
+    
+    const withContext = await loadConfiguration(sources, { ruleContext: { featuredPostCount: 20 } })
+    expect(withContext.warnings).not.toContainEqual(limitWarning)
+  })
+  
+  it('should run registered rules and report rules that throw', () => {
+    registerSemanticRule({
+      name: 'long-bio',
+      severity: 'warning',
+      check: config => config.personal.bio.length >= 40 ? [] : [{ path: 'personal.bio', message: 'Expand the bio' }],
+    })
+    registerSemanticRule({
+      name: 'broken',
+      severity: 'warning',
+      check: () => { throw new Error('boom') },
+    })
+    
+    try {
+      const result = validateSemantics(createConfig({ personal: { ...defaults.personal, bio: 'Architect.' } }), {})
+      
+      expect(result.warnings.map(issue => issue.rule)).toContain('long-bio')
+      expect(result.errors).toContainEqual({ rule: 'broken', severity: 'error', path: '', message: 'Rule failed: boom' })
+    } finally {
+      unregisterSemanticRule('long-bio')
+      unregisterSemanticRule('broken')
+    }
+  })
+  
+  it('should only run the rule set it is given', () => {
+    const dateOrder = BUILT_IN_RULES.filter(rule => rule.name === 'date-order')
+    const config = createConfig(experience([{ id: 'a' }, { id: 'a' }]))
+    
+    expect(validateSemantics(config, {}, dateOrder).isValid).toBe(true)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import path from 'path'
+import { resolveSecretReference, findSecretsInOutput } from '../../config/secrets'
+import { redactSecrets } from '../../config/redact'
+import { getSecretFieldPaths } from '../../config/schema'
+import { loadConfiguration } from '../../config/loader'
+import { ConfigurationManager } from '../../config/manager'
+import { previewConfiguration } from '../../config/utils'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Secret references, secret fields and redaction
+ */
+
+describe('Config Secrets', () => {
+  const originalEnv = process.env
+  const tempDir = useTempDir('secrets')
+  
+  beforeEach(() => {
+    process.env = { ...originalEnv, CONTACT_FORM_API_KEY: 'form-key-123456' }
+  })
+  
+  afterEach(() => {
+    process.env = originalEnv
+  })
+  
+  const writeConfig = (config: any) => tempDir.write('site.json', config)
+  
+  it('should resolve env and file references', async () => {
+    const secretPath = tempDir.write('chatbot_api_key', 'chat-key-123456\n')
+    
+    expect(await resolveSecretReference({ $secret: 'env:CONTACT_FORM_API_KEY' })).toBe('form-key-123456')
+    expect(await resolveSecretReference({ $secret: `file:${secretPath}` })).toBe('chat-key-123456')
+    await expect(resolveSecretReference({ $secret: 'env:MISSING_SECRET' })).rejects.toThrow('MISSING_SECRET is not set')
+    await expect(resolveSecretReference({ $secret: 'vault' })).rejects.toThrow('Invalid secret reference')
+  })
+  
+  it('should resolve references while loading and list their paths', async () => {
+    const configPath = writeConfig({
+      contact: { formApiKey: { $secret: 'env:CONTACT_FORM_API_KEY' } },
+      seo: { title: { $secret: 'env:MISSING_SECRET' } },
+    })
+    
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.config.contact.formApiKey).toBe('form-key-123456')
+    expect(loaded.config.seo.title).toBeUndefined()
+    expect(loaded.secrets).toEqual(expect.arrayContaining(['contact.formApiKey', 'seo.title']))
+    expect(loaded.errors).toEqual([
+      'seo.title: Failed to resolve secret: Environment variable MISSING_SECRET is not set',
+    ])
+  })
+  
+  it('should treat secret fields as secrets however they are set', async () => {
+    process.env.ARCH_RESUME__chatbot__apiKey = 'chat-key-from-env'
+    const configPath = writeConfig({ contact: { formApiKey: 'plain-form-key' } })
+    
+    const loaded = await loadConfiguration([
+      { type: 'file', path: configPath, priority: 10 },
+      { type: 'env', priority: 30 },
+    ], { validateSchema: false, processTemplates: false })
+    
+    expect(loaded.secrets).toEqual(expect.arrayContaining(['contact.formApiKey', 'chatbot.apiKey']))
+    const redacted = redactSecrets(loaded.config, loaded.secrets)
+    expect(redacted.chatbot.apiKey).toBeUndefined()
+    expect(redacted.contact.formApiKey).toBeUndefined()
+    expect(loaded.config.chatbot.apiKey).toBe('chat-key-from-env')
+  })
+  
+  it('should only list secret fields that have a value', () => {
+    expect(getSecretFieldPaths({ chatbot: { apiKey: 'key', name: 'Bot' }, contact: {} })).toEqual(['chatbot.apiKey'])
+    expect(getSecretFieldPaths({})).toEqual([])
+  })
+  
+  it('should keep API keys and the chat endpoint secret but not analytics IDs', () => {
+    const config = {
+      contact: { mapApiKey: 'maps-key', formApiKey: 'form-key' },
+      chatbot: { apiEndpoint: 'https://chat.example.com', apiKey: 'chat-key' },
+      analytics: { googleAnalytics: 'G-123', googleTagManager: 'GTM-123', hotjar: '123', mixpanel: 'token' },
+    }
+    
+    expect(getSecretFieldPaths(config).sort()).toEqual([
+      'chatbot.apiEndpoint',
+      'chatbot.apiKey',
+      'contact.formApiKey',
+      'contact.mapApiKey',
+    ])
+  })
+  
+  it('should redact secret fields set through the manager', async () => {
+    const manager = new ConfigurationManager({
+      sources: [{ type: 'file', path: writeConfig({ personal: { name: 'Jane' } }), priority: 10 }],
+      enableValidation: false,
+      enableTemplates: false,
+    })
+    await manager.initialize()
+    
+    await manager.set('chatbot.apiKey', 'set-at-runtime')
+    
+    expect(manager.secrets).toContain('chatbot.apiKey')
+    expect(manager.export().config.chatbot?.apiKey).toBeUndefined()
+    manager.destroy()
+  })
+  
+  it('should keep resolved secrets out of the preview', async () => {
+    const configPath = writeConfig({
+      contact: { formApiKey: { $secret: 'env:CONTACT_FORM_API_KEY' } },
+      seo: { title: 'Key {{contact.formApiKey}}' },
+    })
+    
+    const preview = await previewConfiguration([{ type: 'file', path: configPath, priority: 10 }])
+    
+    expect(JSON.stringify(preview.config)).not.toContain('form-key-123456')
+    expect(JSON.stringify(preview.processedConfig)).not.toContain('form-key-123456')
+  })
+  
+  it('should find resolved secrets in static output', async () => {
+    const outDir = tempDir.resolve('out')
+    fs.mkdirSync(path.join(outDir, '_next'), { recursive: true })
+    fs.writeFileSync(path.join(outDir, 'index.html'), '<p>safe</p>')
+    fs.writeFileSync(path.join(outDir, '_next', 'page.js'), 'const key = "form-key-123456"')
+    
+    const leaks = await findSecretsInOutput({ 'contact.formApiKey': 'form-key-123456', 'seo.title': 'abc' }, [outDir])
+    
+    expect(leaks).toEqual([{ file: path.relative(process.cwd(), path.join(outDir, '_next', 'page.js')), secretPath: 'contact.formApiKey' }])
+  })
+  
+  it('should keep redaction free of server-only imports', () => {
+    const source = fs.readFileSync(path.join(__dirname, '../../config/redact.ts'), 'utf-8')
+    
+    expect(source).not.toMatch(/^import /m)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import {
+  replaceTemplateVariables,
+  createTemplateContext,
+  registerTemplatePartial,
+  validateTemplateString,
+  extractTemplateVariables,
+  resolveConfigurationTemplates,
+} from '../../config/template'
+import type { ArchitectResumeConfig } from '../../config/schema'
+
+/**
+ * Conditionals, loops, partials and defaults in templates
+ */
+
+describe('Template Blocks', () => {
+  const config = {
+    personal: { name: 'Jane Architect', title: '' },
+    portfolio: {
+      projects: [
+        { id: 'eco-villa', title: 'Eco Villa', tags: ['timber', 'passive'] },
+        { id: 'harbor', title: 'Harbor Museum', tags: [] },
+      ],
+    },
+    templates: { partials: { byline: '{{personal.name}}{{#if personal.title}}, {{personal.title}}{{/if}}' } },
+  } as unknown as ArchitectResumeConfig
+  
+  const render = (template: string, custom: Record<string, any> = {}) =>
+    replaceTemplateVariables(template, createTemplateContext(config, custom))
+  
+  it('should render conditionals with else branches', () => {
+    expect(render('{{#if personal.name}}Hi {{personal.name}}{{else}}Anonymous{{/if}}')).toBe('Hi Jane Architect')
+    expect(render('{{#if personal.title}}{{personal.title}}{{else}}No title{{/if}}')).toBe('No title')
+    expect(render('{{#unless personal.title}}untitled{{/unless}}')).toBe('untitled')
+    expect(render('{{#if custom.empty}}some{{else}}none{{/if}}', { empty: [] })).toBe('none')
+  })
+  
+  it('should loop over arrays with item scope and loop variables', () => {
+    const template = '{{#each portfolio.projects}}{{@index}}:{{title}}{{#unless @last}}, {{/unless}}{{/each}}'
+    
+    expect(render(template)).toBe('0:Eco Villa, 1:Harbor Museum')
+    expect(render('{{#each portfolio.projects}}{{#each tags}}{{this}}/{{id}} {{/each}}{{/each}}')).toBe('timber/eco-villa passive/eco-villa ')
+    expect(render('{{#each custom.none}}x{{else}}empty{{/each}}')).toBe('empty')
+  })
+  
+  it('should include partials from the config and from code', () => {
+    registerTemplatePartial('signature', '-- {{> byline}}')
+    
+    expect(render('{{> byline}}')).toBe('Jane Architect')
+    expect(render('{{> signature}}')).toBe('-- Jane Architect')
+    expect(render('{{> missing}}')).toBe('{{> missing}}')
+  })
+  
+  it('should leave self-including partials unexpanded and report them', () => {
+    registerTemplatePartial('loop', 'again {{> loop}}')
+    
+    expect(render('{{> loop}}')).toBe('again {{> loop}}')
+    expect(resolveConfigurationTemplates({ seo: { title: '{{> loop}}' } } as unknown as ArchitectResumeConfig).warnings)
+      .toEqual(['seo.title: Template partial "loop" includes itself: loop > loop'])
+  })
+  
+  it('should fall back to defaults for missing or empty values', () => {
+    expect(render('{{personal.title ?? "Architect"}}')).toBe('Architect')
+    expect(render('{{personal.nickname ?? personal.name|uppercase}}')).toBe('JANE ARCHITECT')
+    expect(render('{{personal.name ?? "unused"}}')).toBe('Jane Architect')
+  })
+  
+  it('should report unbalanced blocks', () => {
+    expect(validateTemplateString('{{#if a}}x').errors).toEqual(['Unclosed block "#if" at position 0'])
+    expect(resolveConfigurationTemplates({ seo: { title: '{{#if a}}x' } } as unknown as ArchitectResumeConfig).warnings)
+      .toEqual(['seo.title: Template parsing failed: Unclosed block "#if" at position 0'])
+    expect(validateTemplateString('{{#if a}}x{{/each}}').errors[0]).toContain('does not match "#if"')
+    expect(validateTemplateString('{{#with a}}x{{/with}}').errors).toEqual(['Unknown block helper "#with" at position 0'])
+  })
+  
+  it('should extract the paths blocks and defaults read', () => {
+    expect(extractTemplateVariables('{{#each portfolio.projects}}{{this.title}}{{@index}}{{/each}}{{#if a}}{{b ?? c}}{{/if}}').sort())
+      .toEqual(['a', 'b', 'c', 'portfolio.projects'])
+  })
+})
\ No newline at end of file
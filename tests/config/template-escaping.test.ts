@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import {
+  escapeTemplateValue,
+  replaceTemplateVariables,
+  createTemplateContext,
+  resolveConfigurationTemplates,
+  validateTemplateString,
+  TemplateUtils,
+} from '../../config/template'
+import { getTemplateEscaping } from '../../config/schema'
+import type { ArchitectResumeConfig } from '../../config/schema'
+
+/**
+ * Context-aware escaping of template output
+ */
+
+describe('Template Escaping', () => {
+  const config = {
+    personal: { name: 'Jane <b>Architect</b>', city: 'São Paulo & Rio', website: 'https://jane.example.com' },
+  } as unknown as ArchitectResumeConfig
+  
+  describe('escapeTemplateValue', () => {
+    it('should escape for HTML content and attributes', () => {
+      expect(escapeTemplateValue(`<a href="x">Tom & 'Jo'</a>`, 'html'))
+        .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jo&#39;&lt;/a&gt;')
+      expect(escapeTemplateValue('a=b `c`', 'html')).toBe('a=b `c`')
+      expect(escapeTemplateValue('a=b `c`', 'attr')).toBe('a&#61;b &#96;c&#96;')
+    })
+    
+    it('should keep safe URLs whole and block unsafe schemes', () => {
+      expect(escapeTemplateValue('https://example.com/a b?q=%20', 'url')).toBe('https://example.com/a%20b?q=%20')
+      expect(escapeTemplateValue('mailto:jane@example.com', 'url')).toBe('mailto:jane@example.com')
+      expect(escapeTemplateValue('a b/c&d', 'url')).toBe('a%20b%2Fc%26d')
+      expect(escapeTemplateValue('javascript:alert(1)', 'url')).toBe('about:invalid')
+      expect(escapeTemplateValue(' JavaScript:alert(1)', 'url')).toBe('about:invalid')
+      expect(escapeTemplateValue('data:text/html,<b>', 'url')).toBe('about:invalid')
+    })
+    
+    it('should escape for the inside of JSON and script strings', () => {
+      expect(escapeTemplateValue('say "hi"\n</script>&\u2028', 'json'))
+        .toBe('say \\"hi\\"\\n\\u003c/script\\u003e\\u0026\\u2028')
+    })
+    
+    it('should reject unknown escapings', () => {
+      expect(escapeTemplateValue('<b>', 'none')).toBe('<b>')
+      expect(() => escapeTemplateValue('x', 'sql' as any)).toThrow('Unknown template escaping "sql"')
+    })
+  })
+  
+  describe('replaceTemplateVariables', () => {
+    const render = (template: string, escaping: Parameters<typeof escapeTemplateValue>[1] = 'none', untrusted?: string[]) =>
+      replaceTemplateVariables(template, { ...createTemplateContext(config, { query: '<img onerror=x>' }), untrusted }, 'BASIC', escaping)
+    
+    it('should escape substituted values but not the template text', () => {
+      expect(render('<p>{{personal.name}}</p>', 'html')).toBe('<p>Jane &lt;b&gt;Architect&lt;/b&gt;</p>')
+      expect(render('<p>{{personal.name}}</p>')).toBe('<p>Jane <b>Architect</b></p>')
+      expect(render('{{personal.nickname ?? "<i>Jane</i>"}}', 'html')).toBe('<i>Jane</i>')
+    })
+    
+    it('should let |raw and |escape choose the escaping', () => {
+      expect(render('{{personal.name|raw}}', 'html')).toBe('Jane <b>Architect</b>')
+      expect(render('/search?city={{personal.city|escape:url}}', 'html')).toBe('/search?city=S%C3%A3o%20Paulo%20%26%20Rio')
+      expect(render('{{personal.city|escape}}')).toBe('São Paulo &amp; Rio')
+      expect(validateTemplateString('{{personal.city|escape:sql}}').errors)
+        .toEqual(['Unknown escaping "sql", expected one of: html, attr, url, json, none'])
+    })
+    
+    it('should always escape untrusted paths', () => {
+      expect(render('{{custom.query}}', 'none', ['custom.query'])).toBe('&lt;img onerror=x&gt;')
+      expect(render('{{custom.query|raw}}', 'none', ['custom.query'])).toBe('&lt;img onerror=x&gt;')
+      expect(render('{{custom.query|escape:none}}', 'attr', ['custom'])).toBe('&lt;img onerror&#61;x&gt;')
+      expect(render('{{custom.query|escape:url}}', 'html', ['custom'])).toBe('%3Cimg%20onerror%3Dx%3E')
+      expect(render('{{personal.name}}', 'none', ['custom'])).toBe('Jane <b>Architect</b>')
+    })
+    
+    it('should escape form fields in email templates', () => {
+      const context = createTemplateContext(config)
+      const email = TemplateUtils.processEmailTemplate('From {{form.name|raw}} to {{personal.name|raw}}', {
+        ...context,
+        form: { name: '<script>x</script>' },
+      }, 'none')
+      
+      expect(email).toBe('From &lt;script&gt;x&lt;/script&gt; to Jane <b>Architect</b>')
+    })
+  })
+  
+  describe('resolveConfigurationTemplates', () => {
+    it('should escape each field for where it is used', () => {
+      expect(getTemplateEscaping('analytics.customTracking')).toBe('json')
+      expect(getTemplateEscaping('personal.website')).toBe('url')
+      expect(getTemplateEscaping('personal.name')).toBe('none')
+      
+      const { config: resolved } = resolveConfigurationTemplates({
+        ...config,
+        social: { linkedin: 'https://linkedin.com/in/{{personal.city}}' },
+        seo: { title: '{{personal.name}}' },
+        analytics: { customTracking: 'track("{{personal.name}}")' },
+      } as unknown as ArchitectResumeConfig, {}, 'BASIC', { escaping: getTemplateEscaping })
+      
+      expect(resolved.social.linkedin).toBe('https://linkedin.com/in/S%C3%A3o%20Paulo%20%26%20Rio')
+      expect(resolved.seo.title).toBe('Jane &lt;b&gt;Architect&lt;/b&gt;')
+      expect(resolved.analytics.customTracking).toBe('track("Jane \\u003cb\\u003eArchitect\\u003c/b\\u003e")')
+    })
+    
+    it('should escape the fields rendered in meta tags and markup', () => {
+      const name = 'Tom & "Jo" <Studio> =x'
+      const { config: resolved } = resolveConfigurationTemplates({
+        personal: { name, bio: 'About {{personal.name}}' },
+        seo: {
+          title: '{{personal.name}}',
+          description: 'Work by {{personal.name}}',
+          keywords: ['architect', '{{personal.name}}'],
+          author: '{{personal.name}}',
+          siteName: '{{personal.name}} Portfolio',
+        },
+      } as unknown as ArchitectResumeConfig, {}, 'BASIC', { escaping: getTemplateEscaping })
+      const attr = 'Tom &amp; &quot;Jo&quot; &lt;Studio&gt; &#61;x'
+      
+      expect(resolved.personal.bio).toBe('About Tom &amp; &quot;Jo&quot; &lt;Studio&gt; =x')
+      expect(resolved.seo).toEqual({
+        title: attr,
+        description: `Work by ${attr}`,
+        keywords: ['architect', attr],
+        author: attr,
+        siteName: `${attr} Portfolio`,
+      })
+    })
+  })
+})
\ No newline at end of file
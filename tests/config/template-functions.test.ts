@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import {
+  replaceTemplateVariables,
+  createTemplateContext,
+  registerTemplateFunction,
+  registerTemplateFunctions,
+  unregisterTemplateFunction,
+  getTemplateFunction,
+  validateTemplateString,
+} from '../../config/template'
+import type { ArchitectResumeConfig } from '../../config/schema'
+
+/**
+ * Template function registry
+ */
+
+describe('Template Functions', () => {
+  const config = {
+    personal: { name: 'Jane Architect', bio: 'Designs civic buildings and public spaces' },
+    blog: { postsPerPage: 6 },
+  } as unknown as ArchitectResumeConfig
+  
+  const render = (template: string) => replaceTemplateVariables(template, createTemplateContext(config))
+  
+  afterEach(() => {
+    for (const name of ['initials', 'repeat', 'pad', 'shout', 'wrap']) {
+      unregisterTemplateFunction(name)
+    }
+  })
+  
+  it('should call registered functions with their arguments', () => {
+    registerTemplateFunction('initials', value => value.split(' ').map(word => word[0]).join(''))
+    
+    expect(render('{{personal.name|initials}}')).toBe('JA')
+    expect(render('{{personal.name|initials|lowercase}}')).toBe('ja')
+    expect(getTemplateFunction('initials')?.fn('Eco Villa')).toBe('EV')
+  })
+  
+  it('should convert arguments to their declared types', () => {
+    const repeat = jest.fn((value: string, times: number, separator = '') => Array(times).fill(value).join(separator))
+    registerTemplateFunction('repeat', repeat, { argTypes: ['number', 'string?'] })
+    registerTemplateFunction('pad', (value, length) => `${value}:${typeof length}`, { argTypes: ['string'] })
+    
+    expect(render('{{blog.postsPerPage|repeat:2:"-"}}')).toBe('6-6')
+    expect(repeat).toHaveBeenLastCalledWith('6', 2, '-')
+    expect(render('{{blog.postsPerPage|pad:10}}')).toBe('6:string')
+  })
+  
+  it('should check arguments against argTypes', () => {
+    registerTemplateFunction('repeat', value => value, { argTypes: ['number', 'boolean?'] })
+    
+    expect(validateTemplateString('{{a|repeat:2}}').errors).toEqual([])
+    expect(validateTemplateString('{{a|repeat}}').errors).toEqual(['Template function repeat expects 1-2 argument(s), got 0'])
+    expect(validateTemplateString('{{a|repeat:two}}').errors).toEqual(['Argument 1 of repeat must be a number, got "two"'])
+    expect(validateTemplateString('{{a|repeat:2:yes}}').errors).toEqual(['Argument 2 of repeat must be true or false, got "yes"'])
+    expect(validateTemplateString('{{a|truncate:many}}').errors).toEqual(['Argument 1 of truncate must be a number, got "many"'])
+    expect(validateTemplateString('{{a|shout}}').errors).toEqual(['Unknown template function: shout'])
+  })
+  
+  it('should register several functions and definitions at once', () => {
+    registerTemplateFunctions({
+      shout: value => `${value.toUpperCase()}!`,
+      wrap: { fn: (value, before, after) => `${before}${value}${after}`, argTypes: ['string', 'string'] },
+    })
+    
+    expect(render('{{personal.name|shout}}')).toBe('JANE ARCHITECT!')
+    expect(render('{{personal.name|wrap:"[":"]"}}')).toBe('[Jane Architect]')
+    expect(getTemplateFunction('wrap')?.argTypes).toEqual(['string', 'string'])
+  })
+  
+  it('should replace and remove functions, including built-ins', () => {
+    registerTemplateFunction('shout', value => value.toUpperCase())
+    registerTemplateFunction('shout', value => `${value}!`)
+    
+    expect(render('{{personal.name|shout}}')).toBe('Jane Architect!')
+    expect(unregisterTemplateFunction('shout')).toBe(true)
+    expect(unregisterTemplateFunction('shout')).toBe(false)
+    expect(render('{{personal.name|shout}}')).toBe('Jane Architect')
+    
+    const uppercase = getTemplateFunction('uppercase')!
+    registerTemplateFunction('uppercase', value => `<${value}>`)
+    expect(render('{{personal.name|uppercase}}')).toBe('<Jane Architect>')
+    registerTemplateFunction('uppercase', uppercase.fn, uppercase)
+    expect(render('{{personal.name|uppercase}}')).toBe('JANE ARCHITECT')
+  })
+  
+  it('should reject invalid names and non-functions', () => {
+    expect(() => registerTemplateFunction('my-func', value => value)).toThrow('Invalid template function name "my-func"')
+    expect(() => registerTemplateFunction('a:b', value => value)).toThrow('Invalid template function name')
+    expect(() => registerTemplateFunction('shout', 'upper' as any)).toThrow('Template function "shout" must be a function')
+    expect(getTemplateFunction('shout')).toBeUndefined()
+  })
+})
\ No newline at end of file
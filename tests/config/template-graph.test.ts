@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { buildTemplateGraph, resolveConfigurationTemplates } from '../../config/template'
+import type { ArchitectResumeConfig } from '../../config/schema'
+
+/**
+ * Template dependency graph and resolution order
+ */
+
+describe('Template Graph', () => {
+  const asConfig = (value: object) => value as unknown as ArchitectResumeConfig
+  
+  it('should record which templated paths each template reads', () => {
+    const graph = buildTemplateGraph(asConfig({
+      seo: { title: '{{personal.title}} | {{env.SITE_NAME}}' },
+      personal: { name: 'Jane', title: '{{personal.name}}, Architect' },
+      portfolio: { projects: [{ title: '{{personal.name}} Pavilion' }] },
+      blog: { description: '{{#each portfolio.projects}}{{this.title}}{{/each}}' },
+    }))
+    
+    expect(graph.dependencies).toEqual({
+      'seo.title': ['personal.title'],
+      'personal.title': [],
+      'portfolio.projects.0.title': [],
+      'blog.description': ['portfolio.projects.0.title'],
+    })
+    expect(graph.order).toEqual(['personal.title', 'seo.title', 'portfolio.projects.0.title', 'blog.description'])
+    expect(graph.cycles).toEqual([])
+  })
+  
+  it('should follow references through partials', () => {
+    const graph = buildTemplateGraph(asConfig({
+      seo: { description: '{{> intro}}' },
+      personal: { title: '{{personal.role}}', role: 'Architect' },
+      templates: { partials: { intro: 'I am {{personal.title}}' } },
+    }))
+    
+    expect(graph.dependencies['seo.description']).toEqual(['personal.title'])
+    expect(graph.dependencies).not.toHaveProperty('templates.partials.intro')
+  })
+  
+  it('should find each cycle once', () => {
+    const graph = buildTemplateGraph(asConfig({
+      a: '{{b}}',
+      b: '{{a}}',
+      c: '{{c}}',
+      d: '{{a}}',
+    }))
+    
+    expect(graph.cycles).toEqual([['a', 'b', 'a'], ['c', 'c']])
+  })
+  
+  it('should resolve templates regardless of key order', () => {
+    const { config, errors, warnings } = resolveConfigurationTemplates(asConfig({
+      seo: { title: '{{personal.title}} - {{personal.location}}' },
+      personal: { title: '{{personal.role}} at {{personal.firm}}', role: 'Architect', firm: 'Studio', location: '{{custom.city}}' },
+    }), { city: 'Oslo' })
+    
+    expect(config.seo.title).toBe('Architect at Studio - Oslo')
+    expect(errors).toEqual([])
+    expect(warnings).toEqual([])
+  })
+  
+  it('should leave strings in a cycle unresolved and report the cycle', () => {
+    const { config, errors } = resolveConfigurationTemplates(asConfig({
+      personal: { name: 'Jane' },
+      a: '{{b}}',
+      b: 'x{{a}}',
+      greeting: 'Hi {{personal.name}}',
+    }))
+    
+    expect(errors).toEqual(['Template cycle: a -> b -> a'])
+    expect((config as any).a).toBe('{{b}}')
+    expect((config as any).b).toBe('x{{a}}')
+    expect((config as any).greeting).toBe('Hi Jane')
+  })
+  
+  it('should let a string fall back from its own path without a cycle', () => {
+    const graph = buildTemplateGraph(asConfig({
+      personal: { name: '{{personal.name ?? "Jane"}}', title: '{{personal.title}} {{personal.title ?? "Architect"}}' },
+    }))
+    
+    expect(graph.dependencies['personal.name']).toEqual([])
+    expect(graph.cycles).toEqual([['personal.title', 'personal.title']])
+    
+    const { config, errors, warnings } = resolveConfigurationTemplates(asConfig({
+      personal: { name: '{{personal.name ?? "Jane"}}', nickname: '{{personal.nickname ?? personal.name}}' },
+      seo: { title: '{{personal.nickname}}' },
+    }))
+    
+    expect(config.personal.name).toBe('Jane')
+    expect((config.personal as any).nickname).toBe('Jane')
+    expect(config.seo.title).toBe('Jane')
+    expect(errors).toEqual([])
+    expect(warnings).toEqual([])
+  })
+  
+  it('should not change the config it is given', () => {
+    const input = asConfig({ personal: { name: 'Jane', title: '{{personal.name}}' } })
+    
+    expect(resolveConfigurationTemplates(input).config.personal.title).toBe('Jane')
+    expect(input.personal.title).toBe('{{personal.name}}')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import { resolveConfigurationTemplates } from '../../config/template'
+import { loadConfiguration, ConfigPresets } from '../../config/loader'
+import { ConfigurationManager } from '../../config/manager'
+import type { ArchitectResumeConfig } from '../../config/schema'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Strict template mode
+ */
+
+describe('Strict Templates', () => {
+  const config = {
+    personal: { name: 'Jane Architect' },
+    seo: { title: '{{personal.nmae}} - {{personal.name|shout}}', description: '{{> intro}}' },
+    blog: { title: '{{personal.nickname ?? personal.alias}}' },
+  } as unknown as ArchitectResumeConfig
+  
+  it('should report issues as warnings by default', () => {
+    const { config: resolved, errors, warnings } = resolveConfigurationTemplates(config)
+    
+    expect(errors).toEqual([])
+    expect(warnings).toEqual([
+      'seo.title: Unresolved template variable "personal.nmae"',
+      'seo.title: Unknown template function "shout"',
+      'seo.description: Unknown template partial "intro"',
+      'blog.title: Unresolved template variable "personal.nickname ?? personal.alias"',
+    ])
+    expect(resolved.seo.title).toBe(' - Jane Architect')
+  })
+  
+  it('should report issues as errors in strict mode', () => {
+    const { errors, warnings } = resolveConfigurationTemplates(config, {}, 'BASIC', { strict: true })
+    
+    expect(warnings).toEqual([])
+    expect(errors).toHaveLength(4)
+    expect(errors[0]).toBe('seo.title: Unresolved template variable "personal.nmae"')
+  })
+  
+  it('should report each issue once per path', () => {
+    const { warnings } = resolveConfigurationTemplates({
+      seo: { title: '{{missing}} {{missing}}' },
+    } as unknown as ArchitectResumeConfig)
+    
+    expect(warnings).toEqual(['seo.title: Unresolved template variable "missing"'])
+  })
+  
+  it('should load the shipped configuration with the production preset', async () => {
+    const loaded = await ConfigPresets.production()
+    
+    expect(loaded.errors).toEqual([])
+    expect(loaded.isValid).toBe(true)
+    expect(loaded.config.personal.name).toBe('John Architect')
+  })
+  
+  describe('loading and changing configuration', () => {
+    const tempDir = useTempDir('strict')
+    let configPath: string
+    
+    beforeEach(() => {
+      configPath = tempDir.write('site.json', {
+        personal: { name: 'Jane Architect', title: 'Architect' },
+        seo: { title: '{{personal.name}} - {{personal.title}}' },
+      })
+    })
+    
+    it('should fail loading on template errors only in strict mode', async () => {
+      fs.writeFileSync(configPath, JSON.stringify({ seo: { title: '{{personal.nmae}}' } }))
+      const sources = [{ type: 'file' as const, path: configPath, priority: 10 }]
+      
+      const lenient = await loadConfiguration(sources, { validateSchema: false })
+      const strict = await loadConfiguration(sources, { validateSchema: false, strictTemplates: true })
+      
+      expect(lenient.isValid).toBe(true)
+      expect(lenient.warnings).toContain('seo.title: Unresolved template variable "personal.nmae"')
+      expect(strict.isValid).toBe(false)
+      expect(strict.errors).toContain('seo.title: Unresolved template variable "personal.nmae"')
+    })
+    
+    it('should reject changes that break templates in a strict manager', async () => {
+      const manager = new ConfigurationManager({
+        sources: [{ type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        strictTemplates: true,
+      })
+      await manager.initialize()
+      
+      await expect(manager.set('seo.title', '{{personal.titel}}'))
+        .rejects.toThrow('Template processing failed: seo.title: Unresolved template variable "personal.titel"')
+      expect(manager.get('seo.title')).toBe('Jane Architect - Architect')
+      
+      await manager.set('seo.title', '{{personal.title}}')
+      expect(manager.get('seo.title')).toBe('Architect')
+      manager.destroy()
+    })
+    
+    it('should apply changes with unresolved templates in a lenient manager', async () => {
+      const manager = new ConfigurationManager({
+        sources: [{ type: 'file', path: configPath, priority: 10 }],
+        enableValidation: false,
+        strictTemplates: false,
+      })
+      await manager.initialize()
+      
+      await manager.set('seo.title', 'By {{personal.titel}}')
+      expect(manager.get('seo.title')).toBe('By ')
+      manager.destroy()
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { ConfigurationManager, ConfigChange } from '../../config/manager'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Configuration manager transactions
+ */
+
+describe('Config Transactions', () => {
+  const tempDir = useTempDir('transactions')
+  let manager: ConfigurationManager
+  
+  beforeEach(async () => {
+    const configPath = tempDir.write('site.json', {
+      personal: { name: 'Jane Architect', title: 'Architect' },
+      seo: { title: '{{personal.name}} - {{personal.title}}' },
+    })
+    
+    manager = new ConfigurationManager({
+      sources: [{ type: 'default', priority: 0 }, { type: 'file', path: configPath, priority: 10 }],
+      enableValidation: false,
+    })
+    await manager.initialize()
+  })
+  
+  afterEach(() => {
+    manager.destroy()
+  })
+  
+  it('should apply every change with one notification', async () => {
+    const notifications: ConfigChange[][] = []
+    manager.onChange((_newConfig, _oldConfig, changes) => notifications.push(changes))
+    
+    const result = await manager.transaction(tx => {
+      tx.set('personal.title', 'Principal')
+      tx.update({ theme: { primaryColor: '#1d3557' } })
+      return tx.get('personal.title')
+    })
+    
+    expect(result).toBe('Principal')
+    expect(manager.get('personal.title')).toBe('Principal')
+    expect(manager.get('theme.primaryColor')).toBe('#1d3557')
+    expect(notifications).toHaveLength(1)
+    expect(notifications[0].map(change => change.path.join('.'))).toEqual(
+      expect.arrayContaining(['personal.title', 'theme.primaryColor'])
+    )
+  })
+  
+  it('should apply nothing when the callback throws', async () => {
+    const listener = jest.fn()
+    manager.onChange(listener)
+    
+    await expect(manager.transaction(tx => {
+      tx.set('personal.title', 'Principal')
+      throw new Error('cancelled')
+    })).rejects.toThrow('cancelled')
+    
+    expect(manager.get('personal.title')).toBe('Architect')
+    expect(listener).not.toHaveBeenCalled()
+  })
+  
+  it('should apply nothing when validation fails', async () => {
+    const validating = new ConfigurationManager({
+      sources: [{ type: 'default', priority: 0 }],
+      enableTemplates: false,
+    })
+    await validating.initialize()
+    
+    await expect(validating.transaction(tx => {
+      tx.set('personal.name', 'Jo')
+      tx.set('theme.primaryColor', 'not a colour')
+    })).rejects.toThrow('Configuration validation failed')
+    
+    expect(validating.get('personal.name')).not.toBe('Jo')
+    validating.destroy()
+  })
+  
+  it('should run transactions one at a time in order', async () => {
+    const order: string[] = []
+    
+    await Promise.all([
+      manager.transaction(async tx => {
+        order.push('first:start')
+        await new Promise(resolve => setTimeout(resolve, 20))
+        tx.set('personal.title', 'First')
+        order.push('first:end')
+      }),
+      manager.transaction(tx => {
+        order.push('second')
+        tx.set('personal.title', `${tx.get('personal.title')} then Second`)
+      }),
+    ])
+    
+    expect(order).toEqual(['first:start', 'first:end', 'second'])
+    expect(manager.get('personal.title')).toBe('First then Second')
+  })
+  
+  it('should reject changes made through the manager inside a callback', async () => {
+    await expect(manager.transaction(async () => {
+      await manager.set('personal.title', 'Nested')
+    })).rejects.toThrow('use its tx argument')
+    
+    await expect(manager.transaction(() => manager.transaction(() => undefined)))
+      .rejects.toThrow('use its tx argument')
+    await expect(manager.transaction(() => manager.applyPatch([])))
+      .rejects.toThrow('use its tx argument')
+    
+    // The queue is not blocked afterwards
+    await manager.set('personal.title', 'After')
+    expect(manager.get('personal.title')).toBe('After')
+  })
+  
+  it('should re-template values that depend on changed ones', async () => {
+    expect(manager.get('seo.title')).toBe('Jane Architect - Architect')
+    
+    await manager.transaction(tx => {
+      tx.set('seo.title', '{{personal.name}} - {{personal.title}}')
+      tx.set('personal.title', 'Principal')
+    })
+    
+    expect(manager.get('seo.title')).toBe('Jane Architect - Principal')
+  })
+  
+  it('should reject a transaction object used after the callback', async () => {
+    let escaped: any
+    await manager.transaction(tx => {
+      escaped = tx
+    })
+    
+    expect(() => escaped.set('personal.title', 'Late')).toThrow('Transaction has already finished')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import { debounce, watchConfigFile } from '../../config/watcher'
+import { registerConfigSourcePlugin, unregisterConfigSourcePlugin } from '../../config/plugins'
+import { watchConfiguration } from '../../config/loader'
+import { useTempDir } from '../utils/temp-dir'
+
+/**
+ * Config file watching and debounced reloads
+ */
+
+describe('Config Watching', () => {
+  const tempDir = useTempDir('watcher')
+  
+  afterEach(() => {
+    jest.useRealTimers()
+    unregisterConfigSourcePlugin('memory')
+  })
+  
+  const waitFor = async (condition: () => boolean, timeout = 3000) => {
+    const start = Date.now()
+    while (!condition()) {
+      if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition')
+      await new Promise(resolve => setTimeout(resolve, 20))
+    }
+  }
+  
+  it('should call once after a burst of calls', () => {
+    jest.useFakeTimers()
+    const fn = jest.fn()
+    const debounced = debounce(fn, 100)
+    
+    debounced()
+    jest.advanceTimersByTime(60)
+    debounced()
+    jest.advanceTimersByTime(60)
+    expect(fn).not.toHaveBeenCalled()
+    
+    jest.advanceTimersByTime(40)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+  
+  it('should not call after being cancelled', () => {
+    jest.useFakeTimers()
+    const fn = jest.fn()
+    const debounced = debounce(fn, 100)
+    
+    debounced()
+    debounced.cancel()
+    jest.advanceTimersByTime(200)
+    
+    expect(fn).not.toHaveBeenCalled()
+  })
+  
+  it('should keep watching a file that is replaced by a rename', async () => {
+    const configPath = tempDir.write('site.json', '{}')
+    const onChange = jest.fn()
+    const stop = watchConfigFile(configPath, onChange)
+    
+    try {
+      // Atomic save: write a temporary file and rename it over the original
+      fs.writeFileSync(`${configPath}.tmp`, '{"a":1}')
+      fs.renameSync(`${configPath}.tmp`, configPath)
+      await waitFor(() => onChange.mock.calls.length > 0)
+      
+      onChange.mockClear()
+      fs.writeFileSync(configPath, '{"a":2}')
+      await waitFor(() => onChange.mock.calls.length > 0)
+    } finally {
+      stop()
+    }
+  })
+  
+  it('should ignore other files in the same directory', async () => {
+    const configPath = tempDir.resolve('site.json')
+    const onChange = jest.fn()
+    const stop = watchConfigFile(configPath, onChange)
+    
+    try {
+      tempDir.write('other.json', '{}')
+      await new Promise(resolve => setTimeout(resolve, 200))
+      expect(onChange).not.toHaveBeenCalled()
+      
+      // A file created after watching started is reported
+      fs.writeFileSync(configPath, '{}')
+      await waitFor(() => onChange.mock.calls.length > 0)
+    } finally {
+      stop()
+    }
+  })
+  
+  it('should reload once per burst and skip reloads that change nothing', async () => {
+    let title = 'First'
+    let notify = () => {}
+    let loads = 0
+    registerConfigSourcePlugin({
+      type: 'memory',
+      load: () => {
+        loads++
+        return { seo: { title } }
+      },
+      watch: (_source, onChange) => {
+        notify = onChange
+        return () => {}
+      },
+    })
+    
+    const titles: string[] = []
+    const stop = watchConfiguration([{ type: 'memory' }], loaded => {
+      titles.push(loaded.config.seo.title)
+    }, { debounce: 50 })
+    
+    try {
+      await waitFor(() => loads === 1)
+      
+      // Same data: reloaded but not reported
+      notify()
+      await waitFor(() => loads === 2)
+      
+      title = 'Second'
+      notify()
+      notify()
+      notify()
+      await waitFor(() => titles.length === 1)
+      await new Promise(resolve => setTimeout(resolve, 150))
+    } finally {
+      stop()
+    }
+    
+    expect(titles).toEqual(['Second'])
+    expect(loads).toBe(3)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * Temporary directory fixture for tests that read and write config files
+ */
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+export interface TempDir {
+  // The directory of the running test; a new one is created for every test
+  readonly path: string
+  // Path of a file inside the directory
+  resolve(...segments: string[]): string
+  // Write a file, creating its parent directories; objects are written as JSON
+  write(name: string, content: string | object): string
+}
+
+/**
+ * Create a temporary directory before each test and remove it after
+ *
+ * Call it at the top of a describe block, before hooks that use the directory.
+ */
+export function useTempDir(name: string): TempDir {
+  let current = ''
+  
+  beforeEach(() => {
+    current = fs.mkdtempSync(path.join(os.tmpdir(), `architect-resume-${name}-`))
+  })
+  
+  afterEach(() => {
+    fs.rmSync(current, { recursive: true, force: true })
+  })
+  
+  return {
+    get path() {
+      return current
+    },
+    resolve: (...segments) => path.join(current, ...segments),
+    write(fileName, content) {
+      const filePath = path.join(current, fileName)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content))
+      return filePath
+    },
+  }
+}
\ No newline at end of file